@@ -0,0 +1,168 @@
+import { ClientToServerEvents } from "../src/utils/network/protocol";
+import { ARENA_HALF_SIZE, MOVE_SPEED } from "../src/utils/network/movement";
+import { TICK_RATE } from "./snapshots";
+import { RoomPlayer, Vec3 } from "./types";
+
+// ---- Rate limits ----
+
+interface RateLimit {
+  perSecond: number; // sustained rate
+  burst: number; // bucket size
+}
+
+// Room for a host streaming seven bots at 20Hz each
+const POSE_LIMIT: RateLimit = { perSecond: 200, burst: 100 };
+
+// Clients send input once a tick, and early when a batch fills up
+const INPUT_LIMIT: RateLimit = { perSecond: TICK_RATE * 2, burst: TICK_RATE };
+
+// Anything not listed, i.e. events no handler exists for
+const DEFAULT_LIMIT: RateLimit = { perSecond: 2, burst: 5 };
+
+export const EVENT_RATE_LIMITS: Record<keyof ClientToServerEvents, RateLimit> = {
+  clock_ping: { perSecond: 2, burst: 5 },
+  create_room: { perSecond: 0.5, burst: 3 },
+  list_rooms: { perSecond: 2, burst: 5 },
+  join_room: { perSecond: 1, burst: 5 },
+  create_invite: { perSecond: 1, burst: 5 },
+  kick_player: { perSecond: 2, burst: 5 },
+  choose_team: { perSecond: 2, burst: 5 },
+  update_bot_settings: { perSecond: 2, burst: 5 },
+  join_queue: { perSecond: 1, burst: 3 },
+  leave_queue: { perSecond: 1, burst: 3 },
+  start_game: { perSecond: 1, burst: 3 },
+  rematch_vote: { perSecond: 1, burst: 3 },
+  player_update: POSE_LIMIT,
+  player_update_bin: POSE_LIMIT,
+  player_input: INPUT_LIMIT,
+  player_input_bin: INPUT_LIMIT,
+  snapshot_ack: { perSecond: TICK_RATE * 2, burst: TICK_RATE }, // one per snapshot received
+  player_hit: { perSecond: 10, burst: 20 },
+  chat_message: { perSecond: 3, burst: 6 } // chat.ts applies the stricter per-player limit
+};
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private readonly limit: RateLimit, now: number) {
+    this.tokens = limit.burst;
+    this.updatedAt = now;
+  }
+
+  tryTake(now: number): boolean {
+    const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + elapsed * this.limit.perSecond);
+    this.updatedAt = now;
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+/**
+ * Per-socket token buckets, one per event name.
+ */
+export class EventRateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  // Takes a token for `event`; false means the event should be dropped
+  tryConsume(event: string, now: number = Date.now()): boolean {
+    let bucket = this.buckets.get(event);
+    if (!bucket) {
+      const limit = (EVENT_RATE_LIMITS as Record<string, RateLimit>)[event] ?? DEFAULT_LIMIT;
+      bucket = new TokenBucket(limit, now);
+      this.buckets.set(event, bucket);
+    }
+    return bucket.tryTake(now);
+  }
+}
+
+// ---- Strikes ----
+
+export type StrikeReason = "rate_limited" | "invalid_payload" | "out_of_bounds" | "too_fast" | "teleport";
+
+// Teleporting is never an accident; everything else could be a hiccup
+const STRIKE_WEIGHTS: Record<StrikeReason, number> = {
+  rate_limited: 1,
+  invalid_payload: 1,
+  out_of_bounds: 1,
+  too_fast: 1,
+  teleport: 2
+};
+
+// A socket reaching MAX_STRIKES within the window is disconnected
+export const MAX_STRIKES = 10;
+const STRIKE_WINDOW_MS = 60_000;
+
+// A flood of the same offence counts once per cooldown, not once per message
+const STRIKE_COOLDOWN_MS = 1000;
+
+/**
+ * Offences by one socket over the last minute.
+ */
+export class StrikeTracker {
+  private strikes: { at: number; weight: number }[] = [];
+  private lastStrikeAt = new Map<StrikeReason, number>();
+
+  // Records an offence; false if it fell inside the cooldown and was not counted
+  add(reason: StrikeReason, now: number = Date.now()): boolean {
+    const last = this.lastStrikeAt.get(reason);
+    if (last !== undefined && now - last < STRIKE_COOLDOWN_MS) return false;
+    this.lastStrikeAt.set(reason, now);
+    this.strikes.push({ at: now, weight: STRIKE_WEIGHTS[reason] });
+    return true;
+  }
+
+  count(now: number = Date.now()): number {
+    this.strikes = this.strikes.filter(strike => now - strike.at < STRIKE_WINDOW_MS);
+    return this.strikes.reduce((sum, strike) => sum + strike.weight, 0);
+  }
+}
+
+// ---- Pose sanity ----
+
+// Bots run slower than players; this leaves plenty of headroom for either
+const MAX_POSE_SPEED = MOVE_SPEED * 1.5;
+
+// Allowance for updates bunched up by network jitter
+const POSE_SPEED_SLACK = 0.5;
+
+// No legitimate update moves anyone this far, however long the gap before it
+const TELEPORT_DISTANCE = 10;
+
+// Nobody jumps higher than this, or sinks below the floor
+const MIN_POSE_HEIGHT = -1;
+const MAX_POSE_HEIGHT = 10;
+
+// After the server moves a player (a round reset), poses sent before the
+// client heard about it are dropped without a strike
+const RESPAWN_GRACE_MS = 2000;
+
+export function isInsideArena(position: Vec3): boolean {
+  return (
+    Math.abs(position.x) <= ARENA_HALF_SIZE &&
+    Math.abs(position.z) <= ARENA_HALF_SIZE &&
+    position.y >= MIN_POSE_HEIGHT &&
+    position.y <= MAX_POSE_HEIGHT
+  );
+}
+
+/**
+ * Checks a client-reported position against where the player was at their
+ * last accepted pose. Returns what is wrong with it, or null if it is fine.
+ */
+export function checkPoseMove(player: RoomPlayer, position: Vec3, now: number): StrikeReason | null {
+  if (!isInsideArena(position)) return "out_of_bounds";
+
+  const distance = Math.hypot(position.x - player.position.x, position.z - player.position.z);
+  if (distance > TELEPORT_DISTANCE) return "teleport";
+
+  const elapsed = Math.max(0, now - player.lastPoseAt) / 1000;
+  if (distance > MAX_POSE_SPEED * elapsed + POSE_SPEED_SLACK) return "too_fast";
+  return null;
+}
+
+export function inRespawnGrace(player: RoomPlayer, now: number): boolean {
+  return now - player.respawnedAt < RESPAWN_GRACE_MS;
+}
@@ -0,0 +1,43 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { roomIdSchema } from "../src/utils/network/protocol";
+
+// Bearer token for /admin; the admin API is switched off while this is unset
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN ?? "";
+
+// Longest announcement an admin can broadcast
+export const MAX_SERVER_MESSAGE_LENGTH = 500;
+
+export const adminBroadcastSchema = z.object({
+  message: z.string().trim().min(1).max(MAX_SERVER_MESSAGE_LENGTH),
+  roomId: roomIdSchema.optional() // every connected socket when absent
+});
+
+export interface AdminBroadcastRequest {
+  message: string;
+  roomId?: string;
+}
+
+// Compare digests so neither the length nor the content leaks through timing
+function tokenMatches(presented: string): boolean {
+  const expected = createHash("sha256").update(ADMIN_TOKEN).digest();
+  const actual = createHash("sha256").update(presented).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+// Rejects requests without `Authorization: Bearer <ADMIN_TOKEN>`
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!ADMIN_TOKEN) {
+    res.status(503).json({ error: "Admin API is disabled; set ADMIN_TOKEN to enable it" });
+    return;
+  }
+  const header = req.headers.authorization ?? "";
+  const presented = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  if (!tokenMatches(presented)) {
+    console.log(`Rejected admin request ${req.method} ${req.originalUrl} from ${req.ip}`);
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+  next();
+};
@@ -0,0 +1,61 @@
+import { GameMode, Quat, Team, Vec3 } from "./types";
+
+// Duelists start this far either side of the centre
+const DUEL_SPAWN_RADIUS = 2.5;
+
+// Free-for-all spawns sit on a ring clear of the obstacles near the centre
+const FFA_SPAWN_RADIUS = 6;
+
+// Teams line up facing each other across the arena
+const TEAM_SPAWN_DEPTH = 5;
+const TEAMMATE_SPACING = 2;
+
+export interface SpawnPoint {
+  position: Vec3;
+  rotation: Quat;
+}
+
+// Yaw-only rotation that turns a player at `position` to face the arena centre
+function faceCentre(position: Vec3): Quat {
+  // Players face -Z by default
+  const yaw = Math.atan2(position.x, position.z);
+  return { x: 0, y: Math.sin(yaw / 2), z: 0, w: Math.cos(yaw / 2) };
+}
+
+function onRing(radius: number, index: number, count: number): Vec3 {
+  const angle = (index / count) * Math.PI * 2;
+  return { x: Math.sin(angle) * radius, y: 0, z: Math.cos(angle) * radius };
+}
+
+/**
+ * Spawn point for the player at `index` among `count` players. In team mode
+ * `teamIndex`/`teamSize` place them within their team's line instead.
+ */
+export function spawnPoint(
+  gameMode: GameMode,
+  index: number,
+  count: number,
+  team: Team | null = null,
+  teamIndex: number = 0,
+  teamSize: number = 1
+): SpawnPoint {
+  let position: Vec3;
+
+  switch (gameMode) {
+    case "teams": {
+      const side = team === "blue" ? 1 : -1;
+      const offset = (teamIndex - (teamSize - 1) / 2) * TEAMMATE_SPACING;
+      position = { x: offset, y: 0, z: side * TEAM_SPAWN_DEPTH };
+      break;
+    }
+    case "ffa":
+      position = onRing(FFA_SPAWN_RADIUS, index, Math.max(count, 2));
+      break;
+    case "duel":
+    default:
+      position = onRing(DUEL_SPAWN_RADIUS, index, 2);
+      break;
+  }
+
+  return { position, rotation: faceCentre(position) };
+}
@@ -0,0 +1,32 @@
+import { randomUUID } from "crypto";
+import { GameRoom, RoomPlayer } from "./types";
+
+/**
+ * Bots hold room slots like players but have no socket or session. The
+ * room's host simulates them with the client's Enemy AI and streams their
+ * poses through player_update with a botId, so everyone else just sees them
+ * in world snapshots like any other player.
+ */
+
+export function createBotId(): string {
+  return `bot-${randomUUID().substring(0, 8)}`;
+}
+
+export function humanPlayers(room: GameRoom): RoomPlayer[] {
+  return room.players.filter(p => !p.isBot);
+}
+
+export function botsIn(room: GameRoom): RoomPlayer[] {
+  return room.players.filter(p => p.isBot);
+}
+
+// Bot to drop when a human needs its slot: one from the biggest team keeps teams even
+export function botToReplace(room: GameRoom): RoomPlayer | undefined {
+  const teamSize = (player: RoomPlayer) => room.players.filter(p => p.team === player.team).length;
+  return botsIn(room).sort((a, b) => teamSize(b) - teamSize(a))[0];
+}
+
+// Only the host may drive a bot, and only one that is in the room
+export function canDriveBot(room: GameRoom, senderId: string, botId: string): boolean {
+  return room.hostId === senderId && room.players.some(p => p.id === botId && p.isBot);
+}
@@ -0,0 +1,78 @@
+import { MAX_CHAT_LENGTH } from "../src/utils/network/protocol";
+
+// Each player may send this many chat lines (emotes included) per window
+const CHAT_BURST = 5;
+const CHAT_WINDOW_MS = 10_000;
+
+/**
+ * Rewrites or drops a chat line before it is relayed. Return the text to
+ * send (masked as you like) or null to drop the message entirely.
+ */
+export type ChatFilter = (text: string, playerId: string) => string | null;
+
+// Comma-separated words masked by the default filter, e.g. CHAT_BLOCKLIST=foo,bar
+const blockedWords = (process.env.CHAT_BLOCKLIST ?? "")
+  .split(",")
+  .map(word => word.trim().toLowerCase())
+  .filter(word => word.length > 0);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const blockedPattern = blockedWords.length > 0
+  ? new RegExp(`\\b(${blockedWords.map(escapeRegExp).join("|")})\\b`, "gi")
+  : null;
+
+// Masks blocklisted words with asterisks; never drops a message
+export const maskBlockedWords: ChatFilter = (text) =>
+  blockedPattern ? text.replace(blockedPattern, word => "*".repeat(word.length)) : text;
+
+let chatFilter: ChatFilter = maskBlockedWords;
+
+// Swap in a different profanity filter (a moderation service, a bigger list...)
+export function setChatFilter(filter: ChatFilter): void {
+  chatFilter = filter;
+}
+
+function isControlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+}
+
+// Strip control characters, collapse whitespace and enforce the length limit,
+// then run the filter. Null means there is nothing left to send.
+export function prepareChatText(text: string, playerId: string): string | null {
+  const cleaned = Array.from(text, char => (isControlChar(char) ? " " : char))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_CHAT_LENGTH);
+  if (cleaned.length === 0) return null;
+
+  const filtered = chatFilter(cleaned, playerId);
+  return filtered && filtered.length > 0 ? filtered : null;
+}
+
+/**
+ * Sliding-window limit on chat messages per player.
+ */
+export class ChatRateLimiter {
+  private sent = new Map<string, number[]>();
+
+  // Records the message and returns true if the player is still within their allowance
+  tryConsume(playerId: string, now: number = Date.now()): boolean {
+    const recent = (this.sent.get(playerId) ?? []).filter(time => now - time < CHAT_WINDOW_MS);
+    if (recent.length >= CHAT_BURST) {
+      this.sent.set(playerId, recent);
+      return false;
+    }
+    recent.push(now);
+    this.sent.set(playerId, recent);
+    return true;
+  }
+
+  forget(playerId: string): void {
+    this.sent.delete(playerId);
+  }
+}
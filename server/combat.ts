@@ -0,0 +1,200 @@
+import { AttackType, Quat, RoomPlayer, Vec3 } from "./types";
+import { HitRejectionReason } from "../src/utils/network/protocol";
+
+// Blade and body dimensions used for server-side hit checks (metres)
+export const BLADE_LENGTH = 1.2;
+export const BODY_HEIGHT = 1.8;
+export const BODY_RADIUS = 0.35;
+
+// Slack for blade thickness and the delay between pose snapshots
+export const HIT_TOLERANCE = 0.15;
+
+// Furthest the hilt may be from the attacker's own body
+export const MAX_BLADE_REACH = 1.2;
+
+// Furthest apart two duelists can be for a hit to count
+export const MAX_ATTACK_RANGE = 3.5;
+
+// Minimum time between two accepted hits from the same attacker
+export const HIT_COOLDOWN_MS = 400;
+
+// A swing older than this can no longer land (heavy swings run ~700ms)
+export const MAX_SWING_DURATION_MS = 1000;
+
+// Base damage per stance (Forms I-VII), mirroring Player.setStance
+const STANCE_DAMAGE: Record<number, number> = {
+  1: 8,
+  2: 7,
+  3: 6,
+  4: 9,
+  5: 10,
+  6: 8,
+  7: 12
+};
+
+const HEAVY_ATTACK_MULTIPLIER = 1.8;
+const BLOCK_DAMAGE_REDUCTION = 0.8;
+
+export type HitValidationResult =
+  | { valid: true; damage: number; contactPoint: Vec3 }
+  | { valid: false; reason: HitRejectionReason };
+
+const sub = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const add = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const scale = (a: Vec3, s: number): Vec3 => ({ x: a.x * s, y: a.y * s, z: a.z * s });
+const dot = (a: Vec3, b: Vec3): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const clamp01 = (v: number): number => Math.max(0, Math.min(1, v));
+
+export function distance(a: Vec3, b: Vec3): number {
+  const d = sub(a, b);
+  return Math.sqrt(dot(d, d));
+}
+
+/**
+ * Rotate the local +Y axis (the blade direction) by a quaternion
+ */
+export function bladeDirection(q: Quat): Vec3 {
+  return {
+    x: 2 * (q.x * q.y - q.w * q.z),
+    y: 1 - 2 * (q.x * q.x + q.z * q.z),
+    z: 2 * (q.y * q.z + q.w * q.x)
+  };
+}
+
+/**
+ * Blade segment (hilt to tip) from a player's reported saber pose
+ */
+export function bladeSegment(player: Pick<RoomPlayer, "lightsaberPosition" | "lightsaberRotation">): { start: Vec3; end: Vec3 } {
+  const start = player.lightsaberPosition;
+  const end = add(start, scale(bladeDirection(player.lightsaberRotation), BLADE_LENGTH));
+  return { start, end };
+}
+
+/**
+ * Core segment of a standing body capsule, from hip-ish to head-ish
+ */
+export function bodySegment(position: Vec3): { start: Vec3; end: Vec3 } {
+  return {
+    start: { x: position.x, y: position.y + BODY_RADIUS, z: position.z },
+    end: { x: position.x, y: position.y + BODY_HEIGHT - BODY_RADIUS, z: position.z }
+  };
+}
+
+export function closestPointOnSegment(point: Vec3, start: Vec3, end: Vec3): Vec3 {
+  const seg = sub(end, start);
+  const lengthSq = dot(seg, seg);
+  if (lengthSq === 0) return start;
+  const t = clamp01(dot(sub(point, start), seg) / lengthSq);
+  return add(start, scale(seg, t));
+}
+
+/**
+ * Closest points between two segments (Ericson, Real-Time Collision Detection 5.1.9)
+ */
+export function closestPointsBetweenSegments(
+  p1: Vec3,
+  q1: Vec3,
+  p2: Vec3,
+  q2: Vec3
+): { point1: Vec3; point2: Vec3; distance: number } {
+  const d1 = sub(q1, p1);
+  const d2 = sub(q2, p2);
+  const r = sub(p1, p2);
+  const a = dot(d1, d1);
+  const e = dot(d2, d2);
+  const f = dot(d2, r);
+  const EPSILON = 1e-8;
+
+  let s: number;
+  let t: number;
+
+  if (a <= EPSILON && e <= EPSILON) {
+    s = 0;
+    t = 0;
+  } else if (a <= EPSILON) {
+    s = 0;
+    t = clamp01(f / e);
+  } else {
+    const c = dot(d1, r);
+    if (e <= EPSILON) {
+      t = 0;
+      s = clamp01(-c / a);
+    } else {
+      const b = dot(d1, d2);
+      const denom = a * e - b * b;
+      s = denom !== 0 ? clamp01((b * f - c * e) / denom) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = clamp01(-c / a);
+      } else if (t > 1) {
+        t = 1;
+        s = clamp01((b - c) / a);
+      }
+    }
+  }
+
+  const point1 = add(p1, scale(d1, s));
+  const point2 = add(p2, scale(d2, t));
+  return { point1, point2, distance: distance(point1, point2) };
+}
+
+/**
+ * Damage for a confirmed hit, derived only from server-held state
+ */
+export function computeDamage(stance: number, attackType: AttackType, targetBlocking: boolean): number {
+  let damage = STANCE_DAMAGE[stance] ?? STANCE_DAMAGE[1];
+  if (attackType === "heavy") {
+    damage = Math.round(damage * HEAVY_ATTACK_MULTIPLIER);
+  }
+  if (targetBlocking) {
+    damage = Math.floor(damage * (1 - BLOCK_DAMAGE_REDUCTION));
+  }
+  return damage;
+}
+
+/**
+ * Check a client-reported hit against the server's copy of both players
+ */
+export function validateHit(
+  attacker: RoomPlayer | undefined,
+  target: RoomPlayer | undefined,
+  now: number
+): HitValidationResult {
+  if (!attacker) return { valid: false, reason: "attacker_not_found" };
+  if (!target) return { valid: false, reason: "target_not_found" };
+  if (attacker.id === target.id) return { valid: false, reason: "self_hit" };
+  if (attacker.health <= 0) return { valid: false, reason: "attacker_defeated" };
+  if (target.health <= 0) return { valid: false, reason: "target_defeated" };
+  if (!target.isConnected) return { valid: false, reason: "target_disconnected" };
+  if (!attacker.isAttacking) return { valid: false, reason: "not_attacking" };
+  if (now - attacker.attackStartedAt > MAX_SWING_DURATION_MS) return { valid: false, reason: "attack_expired" };
+  if (attacker.hitLandedInAttack) return { valid: false, reason: "already_hit" };
+  if (now - attacker.lastHitAt < HIT_COOLDOWN_MS) return { valid: false, reason: "cooldown" };
+
+  const dx = attacker.position.x - target.position.x;
+  const dz = attacker.position.z - target.position.z;
+  if (Math.sqrt(dx * dx + dz * dz) > MAX_ATTACK_RANGE) {
+    return { valid: false, reason: "out_of_range" };
+  }
+
+  // The hilt has to be in the attacker's hand, not wherever the client claims
+  const attackerBody = bodySegment(attacker.position);
+  const hand = closestPointOnSegment(attacker.lightsaberPosition, attackerBody.start, attackerBody.end);
+  if (distance(hand, attacker.lightsaberPosition) > BODY_RADIUS + MAX_BLADE_REACH) {
+    return { valid: false, reason: "blade_out_of_reach" };
+  }
+
+  const blade = bladeSegment(attacker);
+  const targetBody = bodySegment(target.position);
+  const contact = closestPointsBetweenSegments(blade.start, blade.end, targetBody.start, targetBody.end);
+  if (contact.distance > BODY_RADIUS + HIT_TOLERANCE) {
+    return { valid: false, reason: "no_contact" };
+  }
+
+  return {
+    valid: true,
+    damage: computeDamage(attacker.stance, attacker.attackType, target.isBlocking),
+    contactPoint: contact.point1
+  };
+}
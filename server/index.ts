@@ -1,226 +1,1454 @@
 import express from "express";
 import http from "http";
-import { Server } from "socket.io";
+import { performance } from "perf_hooks";
+import { Server, Socket } from "socket.io";
 import { v4 as uuidv4 } from "uuid";
-
-// Game room management
-interface GameRoom {
-  id: string;
-  hostId: string;
-  players: {
-    id: string;
-    position: { x: number; y: number; z: number };
-    rotation: { x: number; y: number; z: number; w: number };
-    health: number;
-    lightsaberPosition: { x: number; y: number; z: number };
-    lightsaberRotation: { x: number; y: number; z: number; w: number };
-    isAttacking: boolean;
-    isBlocking: boolean;
-  }[];
-  gameState: "waiting" | "playing" | "finished";
-  startTime?: number;
-}
+import { ZodTypeAny } from "zod";
+import {
+  PROTOCOL_VERSION,
+  MAX_SPECTATORS,
+  MODE_MAX_PLAYERS,
+  TEAMS,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  HandshakeErrorData,
+  BotSettingsPayload,
+  ChatMessagePayload,
+  ChooseTeamPayload,
+  CreateInvitePayload,
+  CreateRoomOptions,
+  HitRejectionReason,
+  JoinQueuePayload,
+  JoinRoomPayload,
+  KickPlayerPayload,
+  PlayerHitPayload,
+  PlayerInputBatchPayload,
+  PlayerInputCommand,
+  PlayerUpdatePayload,
+  RoomSummary,
+  RoundEndReason,
+  botSettingsSchema,
+  chatMessageSchema,
+  chooseTeamSchema,
+  clockPingSchema,
+  createInviteSchema,
+  createRoomSchema,
+  joinQueueSchema,
+  joinRoomSchema,
+  kickPlayerSchema,
+  roomIdSchema,
+  snapshotAckSchema,
+  playerUpdateSchema,
+  playerInputBatchSchema,
+  playerHitSchema
+} from "../src/utils/network/protocol";
+import { AttackType, GameRoom, QueueEntry, RatingRecord, RoomPlayer, SocketData, Team } from "./types";
+import { validateHit } from "./combat";
+import { EventRateLimiter, MAX_STRIKES, StrikeReason, StrikeTracker, checkPoseMove, inRespawnGrace } from "./abuse";
+import { AdminBroadcastRequest, adminBroadcastSchema, requireAdmin } from "./admin";
+import { ServerMetrics, renderMetrics } from "./metrics";
+import { InputHistory, applyPlayerInput } from "./inputs";
+import { BinaryPayload, decodeBotUpdate, decodeInputBatch, encodeWorldSnapshot } from "../src/utils/network/codec";
+import { PoseHistory, estimateViewTime } from "./lagCompensation";
+import { RECONNECT_GRACE_MS, SessionStore } from "./sessions";
+import { ACCESS_ERROR_MESSAGES, banPlayer, checkRoomAccess, createInviteToken, hashPassword } from "./roomAccess";
+import { MatchmakingQueue } from "./matchmaking";
+import { botToReplace, botsIn, canDriveBot, createBotId, humanPlayers } from "./bots";
+import { ChatRateLimiter, prepareChatText } from "./chat";
+import { TICK_INTERVAL_MS, TICK_RATE, deltaSnapshotFor, poseOf, snapshotFor } from "./snapshots";
+import { SnapshotHistory } from "../src/utils/network/SnapshotHistory";
+import { applyMatchResult, newRatingRecord } from "./rating";
+import { createRatingStore } from "./ratingStore";
+import {
+  DEFAULT_BEST_OF,
+  INTERMISSION_MS,
+  ROUND_DURATION_MS,
+  clearMatchTimer,
+  createMatchState,
+  isRoundActive,
+  isTeam,
+  recordDamage,
+  recordRoundWin,
+  resetPlayers,
+  sidesPresent,
+  sidesStanding,
+  winsNeeded
+} from "./rounds";
 
 const app = express();
 const server = http.createServer(app);
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(server, {
   cors: {
     origin: "*",
     methods: ["GET", "POST"]
   }
 });
 
+// Public rooms for the room browser
+app.get("/api/rooms", (req, res) => {
+  res.json(listPublicRooms());
+});
+
+// Liveness probe
+app.get("/healthz", (req, res) => {
+  res.json({ status: "ok", uptime: Math.round(process.uptime()) });
+});
+
+// Prometheus scrape target
+app.get("/metrics", (req, res) => {
+  const roomsByState = { waiting: 0, playing: 0, finished: 0 };
+  Object.values(gameRooms).forEach(room => roomsByState[room.gameState]++);
+  const totals = metrics.totals();
+  
+  res.type("text/plain; version=0.0.4; charset=utf-8").send(renderMetrics({
+    connectedSockets: io.sockets.sockets.size,
+    roomsByState,
+    eventsPerSecond: metrics.eventsPerSecond(),
+    eventsTotal: totals.events,
+    droppedEventsTotal: totals.droppedEvents,
+    strikeDisconnectsTotal: totals.strikeDisconnects,
+    averageTickMs: metrics.averageTickMs(),
+    tickRate: TICK_RATE
+  }));
+});
+
+// Admin API for playtests; every route needs the ADMIN_TOKEN bearer token
+const admin = express.Router();
+admin.use(requireAdmin, express.json());
+
+admin.get("/rooms", (req, res) => {
+  res.json(Object.values(gameRooms).map(room => ({
+    ...summarizeRoom(room),
+    hostId: room.hostId,
+    isPublic: room.isPublic,
+    isRanked: room.isRanked,
+    roundNumber: room.match?.roundNumber ?? 0,
+    phase: room.match?.phase ?? null
+  })));
+});
+
+admin.get("/rooms/:roomId", (req, res) => {
+  const room = gameRooms[req.params.roomId];
+  if (!room) {
+    res.status(404).json({ error: "Room not found" });
+    return;
+  }
+  
+  res.json({
+    ...summarizeRoom(room),
+    hostId: room.hostId,
+    spectatorIds: Array.from(room.spectatorIds),
+    players: room.players.map(player => ({
+      id: player.id,
+      isBot: player.isBot,
+      isConnected: player.isConnected,
+      team: player.team,
+      health: player.health,
+      position: player.position,
+      stance: player.stance,
+      ping: latencies.get(player.id) ?? null,
+      strikes: socketFor(player.id)?.data.strikes.count() ?? 0,
+      score: room.match?.scoreboard.players[player.id] ?? null
+    }))
+  });
+});
+
+// End the match in progress without a winner; unranked either way
+admin.post("/rooms/:roomId/end", (req, res) => {
+  const room = gameRooms[req.params.roomId];
+  if (!room) {
+    res.status(404).json({ error: "Room not found" });
+    return;
+  }
+  if (!room.match || room.match.phase === "over") {
+    res.status(409).json({ error: "No match in progress" });
+    return;
+  }
+  
+  endMatch(room, null, "aborted");
+  console.log(`Admin ended the match in room ${room.id}`);
+  res.json({ ok: true });
+});
+
+// Announce something to one room, or to everyone connected
+admin.post("/broadcast", (req, res) => {
+  const result = adminBroadcastSchema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ error: result.error.issues[0]?.message ?? "Invalid request" });
+    return;
+  }
+  
+  const { message, roomId } = result.data as AdminBroadcastRequest;
+  if (roomId && !gameRooms[roomId]) {
+    res.status(404).json({ error: "Room not found" });
+    return;
+  }
+  
+  const event = { text: message, sentAt: Date.now() };
+  if (roomId) {
+    io.to(roomId).emit("server_message", event);
+  } else {
+    io.emit("server_message", event);
+  }
+  console.log(`Admin broadcast to ${roomId ?? "everyone"}: ${message}`);
+  res.json({ ok: true });
+});
+
+app.use("/admin", admin);
+
 // Serve static files from the client build
 app.use(express.static("dist"));
 
 // Store active game rooms
 const gameRooms: Record<string, GameRoom> = {};
 
+// Session tokens, so dropped players can reclaim their slot
+const sessions = new SessionStore();
+
+// Ranked matchmaking
+const ratingStore = createRatingStore();
+const matchmaking = new MatchmakingQueue();
+const MATCHMAKING_INTERVAL_MS = 1000;
+
+// Recent poses and smoothed round-trip time per player, for lag compensation
+const poseHistories = new Map<string, PoseHistory>();
+const latencies = new Map<string, number>();
+const LATENCY_PROBE_INTERVAL_MS = 2000;
+
+// In-match chat
+const chatLimiter = new ChatRateLimiter();
+
+// Served by /metrics
+const metrics = new ServerMetrics();
+
+// Pose traffic may use the binary codec unless WIRE_ENCODING=json forces JSON for everyone
+const BINARY_ENCODING_ENABLED = process.env.WIRE_ENCODING !== "json";
+const MAX_BINARY_PAYLOAD_BYTES = 1024; // a full batch of inputs is a little over 512
+
+// Recent inputs per player, the baselines for delta-encoded binary inputs
+const inputHistories = new Map<string, InputHistory>();
+
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+// Count an offence against a socket and log it with the rooms it is in.
+// Disconnects the socket once it has run up too many. Returns false when a
+// repeat of the same offence fell inside the cooldown and was not counted.
+function addStrike(socket: GameSocket, reason: StrikeReason, detail: string): boolean {
+  const strikes = socket.data.strikes;
+  if (!strikes.add(reason)) return false;
+  
+  const roomIds = roomsOf(socket.data.session.playerId).map(room => room.id);
+  const rooms = roomIds.length > 0 ? roomIds.join(",") : "none";
+  const count = strikes.count();
+  console.log(`Strike ${count}/${MAX_STRIKES} for ${socket.id} in room ${rooms}: ${reason} (${detail})`);
+  
+  if (count >= MAX_STRIKES) {
+    console.log(`Disconnecting ${socket.id} in room ${rooms}: too many strikes`);
+    socket.emit("error", { code: "too_many_strikes", message: "Disconnected for repeatedly breaking server limits" });
+    socket.disconnect(true);
+    metrics.recordStrikeDisconnect();
+  }
+  return true;
+}
+
+// Validate an incoming payload, reporting malformed ones back to the sender
+function parsePayload<T>(socket: GameSocket, event: string, schema: ZodTypeAny, data: unknown): T | null {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0]?.message;
+    console.log(`Invalid ${event} payload from ${socket.id}: ${issue}`);
+    socket.emit("error", { code: "invalid_payload", message: `Invalid ${event} payload` });
+    addStrike(socket, "invalid_payload", `${event}: ${issue}`);
+    return null;
+  }
+  return result.data as T;
+}
+
+// Decode a binary payload, reporting malformed ones back to the sender.
+// `decode` may return null for a well-formed message we choose to drop.
+function decodeBinary<T>(
+  socket: GameSocket,
+  event: string,
+  data: unknown,
+  decode: (data: BinaryPayload) => T | null
+): T | null {
+  const isBinary = data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+  if (!isBinary || data.byteLength > MAX_BINARY_PAYLOAD_BYTES) {
+    console.log(`Invalid ${event} payload from ${socket.id}: not a binary message`);
+    socket.emit("error", { code: "invalid_payload", message: `Invalid ${event} payload` });
+    addStrike(socket, "invalid_payload", `${event}: not a binary message`);
+    return null;
+  }
+  try {
+    return decode(data);
+  } catch (error) {
+    console.log(`Invalid ${event} payload from ${socket.id}: ${(error as Error).message}`);
+    socket.emit("error", { code: "invalid_payload", message: `Invalid ${event} payload` });
+    addStrike(socket, "invalid_payload", `${event}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+function createGameRoom(hostId: string, options: CreateRoomOptions = {}): GameRoom {
+  const roomId = uuidv4().substring(0, 8);
+  const gameMode = options.gameMode ?? "duel";
+  const room: GameRoom = {
+    id: roomId,
+    hostId,
+    name: options.name ?? `Room ${roomId}`,
+    isPublic: options.isPublic ?? false,
+    maxPlayers: Math.min(options.maxPlayers ?? MODE_MAX_PLAYERS[gameMode], MODE_MAX_PLAYERS[gameMode]),
+    gameMode,
+    passwordHash: options.password ? hashPassword(options.password) : null,
+    inviteOnly: options.inviteOnly ?? false,
+    inviteTokens: new Set(),
+    bannedPlayerIds: new Set(),
+    bannedProfileIds: new Set(),
+    bannedAddresses: new Set(),
+    players: [],
+    spectatorIds: new Set(),
+    isRanked: false,
+    bestOf: options.bestOf ?? DEFAULT_BEST_OF,
+    friendlyFire: options.friendlyFire ?? false,
+    fillWithBots: options.fillWithBots ?? false,
+    botDifficulty: options.botDifficulty ?? "normal",
+    gameState: "waiting",
+    match: null,
+    pendingPoses: new Map(),
+    latestPoses: new Map()
+  };
+  addPlayerToRoom(room, hostId);
+  gameRooms[roomId] = room;
+  return room;
+}
+
+// Fresh player record; resetPlayers moves it to its spawn point
+function createRoomPlayer(id: string, team: Team | null, isBot: boolean = false): RoomPlayer {
+  return {
+    id,
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, w: 1 },
+    health: 100,
+    lightsaberPosition: { x: 0, y: 0, z: 0 },
+    lightsaberRotation: { x: 0, y: 0, z: 0, w: 1 },
+    isAttacking: false,
+    isBlocking: false,
+    isConnected: true,
+    team,
+    isBot,
+    stance: 1,
+    attackType: "light",
+    joinedAt: Date.now(),
+    attackStartedAt: 0,
+    hitLandedInAttack: false,
+    lastHitAt: 0,
+    velocityY: 0,
+    grounded: true,
+    lastInputSequence: -1,
+    inputTimeBudget: 0,
+    inputBudgetAt: Date.now(),
+    lastPoseAt: Date.now(),
+    respawnedAt: Date.now()
+  };
+}
+
+// Team mode fills the smaller team first
+function teamForNewPlayer(room: GameRoom): Team | null {
+  if (room.gameMode !== "teams") return null;
+  const red = room.players.filter(p => p.team === "red").length;
+  const blue = room.players.filter(p => p.team === "blue").length;
+  return blue < red ? "blue" : "red";
+}
+
+function addPlayerToRoom(room: GameRoom, playerId: string, isBot: boolean = false): RoomPlayer {
+  const player = createRoomPlayer(playerId, teamForNewPlayer(room), isBot);
+  room.players.push(player);
+  resetPlayers(room);
+  
+  // Humans get a pose history when they connect; bots need one for lag compensation too
+  if (isBot) poseHistories.set(playerId, new PoseHistory());
+  return player;
+}
+
+// Swing and guard flags that ride along with every pose update
+function applyCombatState(
+  player: RoomPlayer,
+  isAttacking: boolean,
+  isBlocking: boolean,
+  stance?: number,
+  attackType?: AttackType
+): void {
+  // A new swing starts when isAttacking rises; each swing may land one hit
+  if (isAttacking && !player.isAttacking) {
+    player.attackStartedAt = Date.now();
+    player.hitLandedInAttack = false;
+  }
+  player.isAttacking = isAttacking;
+  player.isBlocking = isBlocking;
+  if (stance !== undefined) player.stance = stance;
+  if (attackType !== undefined) player.attackType = attackType;
+}
+
+// Remember a player's new pose for lag compensation and queue it for the
+// next world snapshot; a newer pose in the same tick replaces it
+function queuePose(room: GameRoom, player: RoomPlayer, timestamp: number): void {
+  poseHistories.get(player.id)?.record({
+    time: Date.now(),
+    position: player.position,
+    isBlocking: player.isBlocking
+  });
+  const pose = poseOf(player, timestamp);
+  room.pendingPoses.set(player.id, pose);
+  room.latestPoses.set(player.id, pose);
+}
+
+// One tick: send each socket the poses that changed in its room, in
+// whichever encoding it negotiated
+let tickNumber = 0;
+
+function broadcastSnapshots(): void {
+  const startedAt = performance.now();
+  tickNumber++;
+  const serverTime = Date.now();
+  
+  for (const room of Object.values(gameRooms)) {
+    if (room.pendingPoses.size === 0) continue;
+    
+    for (const socketId of io.sockets.adapter.rooms.get(room.id) ?? []) {
+      const recipient = io.sockets.sockets.get(socketId);
+      if (!recipient) continue;
+      const recipientId = recipient.data.session.playerId;
+      
+      // Binary clients get everything that changed since the last snapshot
+      // they acknowledged, as deltas; JSON clients just this tick's poses
+      if (recipient.data.encoding === "binary") {
+        const history = recipient.data.snapshots;
+        const baseline = history.baselineFor(tickNumber);
+        const snapshot = deltaSnapshotFor(room, recipientId, tickNumber, serverTime, baseline);
+        if (!snapshot) continue;
+        recipient.emit("world_snapshot_bin", encodeWorldSnapshot(snapshot, baseline));
+        history.record(snapshot);
+      } else {
+        const snapshot = snapshotFor(room, recipientId, tickNumber, serverTime);
+        if (snapshot) recipient.emit("world_snapshot", snapshot);
+      }
+    }
+    room.pendingPoses.clear();
+  }
+  metrics.recordTick(performance.now() - startedAt);
+}
+
+// Top up empty slots with bots while the room waits for players
+function fillBots(room: GameRoom): void {
+  if (!room.fillWithBots || room.isRanked || room.gameState !== "waiting") return;
+  
+  while (room.players.length < room.maxPlayers) {
+    const bot = addPlayerToRoom(room, createBotId(), true);
+    io.to(room.id).emit("player_joined", { playerId: bot.id, gameMode: room.gameMode, players: room.players });
+    console.log(`Bot ${bot.id} filled a slot in room ${room.id}`);
+  }
+}
+
+function emitBotSettings(room: GameRoom): void {
+  io.to(room.id).emit("bot_settings", { fillWithBots: room.fillWithBots, difficulty: room.botDifficulty });
+}
+
+function summarizeRoom(room: GameRoom): RoomSummary {
+  const pings = room.players.map(p => latencies.get(p.id)).filter((ping): ping is number => ping !== undefined);
+  return {
+    id: room.id,
+    name: room.name,
+    gameMode: room.gameMode,
+    gameState: room.gameState,
+    playerCount: humanPlayers(room).length,
+    botCount: botsIn(room).length,
+    maxPlayers: room.maxPlayers,
+    bestOf: room.bestOf,
+    hasPassword: room.passwordHash !== null,
+    spectatorCount: room.spectatorIds.size,
+    ping: pings.length > 0 ? Math.round(pings.reduce((sum, ping) => sum + ping, 0) / pings.length) : 0
+  };
+}
+
+// Public rooms that are still open or in progress
+function listPublicRooms(): RoomSummary[] {
+  return Object.values(gameRooms)
+    .filter(room => room.isPublic && !room.inviteOnly && room.gameState !== "finished")
+    .map(summarizeRoom);
+}
+
+function removeSpectator(room: GameRoom, playerId: string): void {
+  if (!room.spectatorIds.delete(playerId)) return;
+  io.to(room.id).emit("spectators_updated", { roomId: room.id, count: room.spectatorIds.size });
+  console.log(`Spectator ${playerId} left room: ${room.id}`);
+}
+
+function joinUrlFor(roomId: string, inviteToken?: string): string {
+  const url = `${process.env.CLIENT_URL || "http://localhost:8080"}?room=${roomId}`;
+  return inviteToken ? `${url}&invite=${inviteToken}` : url;
+}
+
+// Rooms the given player currently holds a slot in
+function roomsOf(playerId: string): GameRoom[] {
+  return Object.values(gameRooms).filter(room => room.players.some(p => p.id === playerId));
+}
+
+// Promote the longest-connected remaining human, preferring ones still online
+function migrateHost(room: GameRoom, onlineOnly: boolean = false): void {
+  const candidates = humanPlayers(room)
+    .filter(p => p.id !== room.hostId && (p.isConnected || !onlineOnly))
+    .sort((a, b) => Number(b.isConnected) - Number(a.isConnected) || a.joinedAt - b.joinedAt);
+  if (candidates.length === 0) return;
+  
+  const previousHostId = room.hostId;
+  room.hostId = candidates[0].id;
+  io.to(room.id).emit("host_changed", { hostId: room.hostId, previousHostId });
+  // The new host takes over simulating the bots
+  if (botsIn(room).length > 0) emitBotSettings(room);
+  console.log(`Room ${room.id} host migrated: ${previousHostId} -> ${room.hostId}`);
+}
+
+// Drop a player from a room for good
+function removePlayerFromRoom(room: GameRoom, playerId: string): void {
+  if (room.players.find(p => p.id === playerId)?.isBot) {
+    poseHistories.delete(playerId);
+  }
+  room.players = room.players.filter(p => p.id !== playerId);
+  room.latestPoses.delete(playerId);
+  
+  // Last human out closes the room, sending any spectators home
+  if (humanPlayers(room).length === 0) {
+    clearMatchTimer(room.match);
+    botsIn(room).forEach(bot => poseHistories.delete(bot.id));
+    io.to(room.id).emit("error", { code: "room_closed", message: "The room has closed" });
+    io.in(room.id).socketsLeave(room.id);
+    delete gameRooms[room.id];
+    console.log(`Room ${room.id} closed: no players left`);
+    return;
+  }
+  
+  // Notify other players
+  io.to(room.id).emit("player_left", { playerId });
+  console.log(`Player ${playerId} left room: ${room.id}`);
+  
+  if (room.hostId === playerId) {
+    migrateHost(room);
+  }
+  
+  if (!room.match) {
+    fillBots(room);
+    return;
+  }
+  
+  // Only one side left to fight: it wins the match
+  const present = sidesPresent(room);
+  if (room.match.phase !== "over" && present.size === 1) {
+    endMatch(room, Array.from(present)[0], "forfeit");
+  } else if (isRoundActive(room.match)) {
+    checkRoundOver(room);
+  } else if (room.match.phase === "over") {
+    updateRematchVotes(room);
+  }
+}
+
+function startMatch(room: GameRoom): void {
+  room.gameState = "playing";
+  room.startTime = Date.now();
+  room.match = createMatchState(room);
+  
+  io.to(room.id).emit("game_started", { startTime: room.startTime, players: room.players });
+  startRound(room);
+}
+
+function startRound(room: GameRoom): void {
+  const match = room.match;
+  clearMatchTimer(match);
+  
+  resetPlayers(room);
+  match.roundNumber++;
+  match.phase = "round";
+  const startTime = Date.now();
+  match.roundEndsAt = startTime + ROUND_DURATION_MS;
+  match.timer = setTimeout(() => enterSuddenDeath(room), ROUND_DURATION_MS);
+  
+  io.to(room.id).emit("round_started", {
+    roundNumber: match.roundNumber,
+    bestOf: room.bestOf,
+    startTime,
+    endsAt: match.roundEndsAt,
+    scoreboard: match.scoreboard,
+    players: room.players
+  });
+  console.log(`Room ${room.id} round ${match.roundNumber} started (best of ${room.bestOf})`);
+}
+
+// Out of time: the next hit to land takes the round
+function enterSuddenDeath(room: GameRoom): void {
+  const match = room.match;
+  match.timer = null;
+  match.phase = "sudden_death";
+  match.roundEndsAt = null;
+  
+  io.to(room.id).emit("sudden_death", { roundNumber: match.roundNumber });
+  console.log(`Room ${room.id} round ${match.roundNumber} went to sudden death`);
+}
+
+// The round is over once at most one player (or team) is still standing
+function checkRoundOver(room: GameRoom): void {
+  const standing = sidesStanding(room);
+  if (standing.size > 1) return;
+  endRound(room, standing.size === 1 ? Array.from(standing)[0] : null);
+}
+
+// `side` is a player id, a team, or null when nobody survived the round
+function endRound(room: GameRoom, side: string | null): void {
+  const match = room.match;
+  clearMatchTimer(match);
+  
+  const roundsWon = side ? recordRoundWin(room, side) : 0;
+  const decided = side !== null && roundsWon >= winsNeeded(room.bestOf);
+  const nextRoundAt = decided ? null : Date.now() + INTERMISSION_MS;
+  match.phase = decided ? "over" : "intermission";
+  match.roundEndsAt = null;
+  
+  io.to(room.id).emit("round_ended", {
+    roundNumber: match.roundNumber,
+    winnerId: side && !isTeam(side) ? side : null,
+    winningTeam: side && isTeam(side) ? side : null,
+    reason: "defeat",
+    scoreboard: match.scoreboard,
+    nextRoundAt
+  });
+  console.log(`Room ${room.id} round ${match.roundNumber} won by ${side ?? "nobody"}`);
+  
+  if (decided) {
+    endMatch(room, side, "defeat");
+  } else {
+    match.timer = setTimeout(() => startRound(room), INTERMISSION_MS);
+  }
+}
+
+// `side` is null when the match was called off with no winner
+function endMatch(room: GameRoom, side: string | null, reason: RoundEndReason): void {
+  const match = room.match;
+  clearMatchTimer(match);
+  match.phase = "over";
+  match.roundEndsAt = null;
+  room.gameState = "finished";
+  
+  io.to(room.id).emit("match_ended", {
+    winnerId: side && !isTeam(side) ? side : null,
+    winningTeam: side && isTeam(side) ? side : null,
+    reason,
+    scoreboard: match.scoreboard
+  });
+  console.log(`Room ${room.id} match won by ${side ?? "nobody"} (${reason})`);
+  
+  // Ranked matches are always duels, so the side is the winning player
+  if (room.isRanked && side) {
+    // A forfeit is rated against whoever left, who is no longer in players
+    const winnerId = side;
+    const loserId = Object.keys(match.scoreboard.players).find(id => id !== winnerId);
+    if (loserId) {
+      settleRankedMatch(room, winnerId, loserId).catch(error =>
+        console.error(`Could not rate match ${room.id}:`, error)
+      );
+    }
+  }
+}
+
+// Broadcast the rematch tally, and reopen the room once every connected human
+// has agreed; bots don't vote
+function updateRematchVotes(room: GameRoom): void {
+  const match = room.match;
+  const voterIds = new Set(humanPlayers(room).filter(p => p.isConnected).map(p => p.id));
+  match.rematchVotes = new Set(Array.from(match.rematchVotes).filter(id => voterIds.has(id)));
+  
+  io.to(room.id).emit("rematch_updated", {
+    votes: Array.from(match.rematchVotes),
+    required: voterIds.size
+  });
+  
+  if (voterIds.size === 0 || match.rematchVotes.size < voterIds.size) return;
+  
+  room.match = null;
+  room.gameState = "waiting";
+  room.startTime = undefined;
+  resetPlayers(room);
+  
+  io.to(room.id).emit("match_reset", { roomId: room.id, players: room.players });
+  console.log(`Room ${room.id} is back to waiting for a rematch`);
+  fillBots(room);
+}
+
+function socketFor(playerId: string): GameSocket | undefined {
+  const socketId = sessions.findByPlayerId(playerId)?.socketId;
+  return socketId ? io.sockets.sockets.get(socketId) : undefined;
+}
+
+async function loadRating(profileId: string): Promise<RatingRecord> {
+  return (await ratingStore.get(profileId)) ?? newRatingRecord(profileId);
+}
+
+// Put a matched pair in a fresh private room and start the duel straight away
+function startRankedMatch(first: QueueEntry, second: QueueEntry): void {
+  const firstSocket = socketFor(first.playerId);
+  const secondSocket = socketFor(second.playerId);
+  
+  // Someone vanished between the queue tick and now; the other keeps their place
+  if (!firstSocket || !secondSocket) {
+    if (firstSocket) matchmaking.join(first);
+    if (secondSocket) matchmaking.join(second);
+    return;
+  }
+  
+  const room = createGameRoom(first.playerId, { name: `Ranked (${first.region})`, maxPlayers: 2 });
+  room.isRanked = true;
+  addPlayerToRoom(room, second.playerId);
+  firstSocket.join(room.id);
+  secondSocket.join(room.id);
+  
+  firstSocket.emit("match_found", {
+    roomId: room.id,
+    hostId: room.hostId,
+    opponentId: second.playerId,
+    opponentRating: second.rating,
+    rating: first.rating
+  });
+  secondSocket.emit("match_found", {
+    roomId: room.id,
+    hostId: room.hostId,
+    opponentId: first.playerId,
+    opponentRating: first.rating,
+    rating: second.rating
+  });
+  
+  startMatch(room);
+  
+  console.log(`Ranked match ${room.id}: ${first.playerId} (${first.rating}) vs ${second.playerId} (${second.rating})`);
+}
+
+// Elo update once a ranked duel has a winner
+async function settleRankedMatch(room: GameRoom, winnerId: string, loserId: string): Promise<void> {
+  const winnerProfile = sessions.findByPlayerId(winnerId)?.profileId;
+  const loserProfile = sessions.findByPlayerId(loserId)?.profileId;
+  if (!winnerProfile || !loserProfile) {
+    console.log(`Ranked match ${room.id} not rated: a player's session has expired`);
+    return;
+  }
+  
+  const [winnerBefore, loserBefore] = await Promise.all([loadRating(winnerProfile), loadRating(loserProfile)]);
+  const { winner, loser } = applyMatchResult(winnerBefore, loserBefore);
+  await Promise.all([ratingStore.save(winner), ratingStore.save(loser)]);
+  
+  io.to(room.id).emit("rating_updated", {
+    playerId: winnerId,
+    rating: winner.rating,
+    delta: winner.rating - winnerBefore.rating,
+    gamesPlayed: winner.gamesPlayed
+  });
+  io.to(room.id).emit("rating_updated", {
+    playerId: loserId,
+    rating: loser.rating,
+    delta: loser.rating - loserBefore.rating,
+    gamesPlayed: loser.gamesPlayed
+  });
+  
+  console.log(`Ranked match ${room.id} rated: ${winnerId} ${winnerBefore.rating} -> ${winner.rating}, ${loserId} ${loserBefore.rating} -> ${loser.rating}`);
+}
+
+setInterval(() => {
+  for (const [first, second] of matchmaking.takeMatches(Date.now())) {
+    startRankedMatch(first, second);
+  }
+}, MATCHMAKING_INTERVAL_MS);
+
+setInterval(broadcastSnapshots, TICK_INTERVAL_MS);
+
+// Refuse clients built against a different protocol version
+io.use((socket, next) => {
+  const clientVersion = socket.handshake.auth?.protocolVersion;
+  if (clientVersion !== PROTOCOL_VERSION) {
+    console.log(`Rejected ${socket.id}: protocol ${clientVersion}, server speaks ${PROTOCOL_VERSION}`);
+    const err = new Error("Protocol version mismatch") as Error & { data?: HandshakeErrorData };
+    err.data = { code: "protocol_mismatch", serverVersion: PROTOCOL_VERSION };
+    next(err);
+    return;
+  }
+  
+  // Resume the presented session if we still know it, otherwise start a new one
+  // Profile ids are self-asserted: fine for casual ladders, not for anything with stakes
+  const profileId = socket.handshake.auth?.profileId;
+  socket.data.session =
+    sessions.get(socket.handshake.auth?.sessionToken) ??
+    sessions.create(socket.id, typeof profileId === "string" && profileId.length <= 64 ? profileId : socket.id);
+  socket.data.encoding = BINARY_ENCODING_ENABLED && socket.handshake.auth?.encoding === "binary" ? "binary" : "json";
+  socket.data.strikes = new StrikeTracker();
+  socket.data.snapshots = new SnapshotHistory();
+  next();
+});
+
 // Socket.io connection handling
 io.on("connection", (socket) => {
-  console.log(`User connected: ${socket.id}`);
+  const session = socket.data.session;
+  const playerId = session.playerId;
+  console.log(`User connected: ${socket.id} (player ${playerId})`);
+  
+  // Every event spends a token from its bucket; events over the limit are dropped
+  const rateLimiter = new EventRateLimiter();
+  socket.use(([event], next) => {
+    metrics.recordEvent();
+    if (rateLimiter.tryConsume(event)) {
+      next();
+      return;
+    }
+    metrics.recordDroppedEvent();
+    if (addStrike(socket, "rate_limited", `${event} over its rate limit`)) {
+      socket.emit("error", { code: "rate_limited", message: `Too many ${event} events; some were dropped` });
+    }
+  });
+  
+  // A session lives on one socket; a newer connection takes it over
+  const previousSocketId = session.socketId;
+  session.socketId = socket.id;
+  if (previousSocketId) {
+    io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+  }
+  
+  socket.emit("session", {
+    playerId,
+    sessionToken: session.token,
+    encoding: socket.data.encoding,
+    tickRate: TICK_RATE
+  });
+  
+  loadRating(session.profileId)
+    .then(({ rating, gamesPlayed, wins, losses }) => socket.emit("profile", { rating, gamesPlayed, wins, losses }))
+    .catch(error => console.error(`Could not load rating for ${playerId}:`, error));
+  
+  if (!poseHistories.has(playerId)) {
+    poseHistories.set(playerId, new PoseHistory());
+  }
+  if (!inputHistories.has(playerId)) {
+    inputHistories.set(playerId, new InputHistory());
+  }
+  
+  // Reclaim any slot held open during the grace period
+  if (session.graceTimer) {
+    clearTimeout(session.graceTimer);
+    session.graceTimer = null;
+  }
+  for (const room of roomsOf(playerId)) {
+    const player = room.players.find(p => p.id === playerId);
+    player.isConnected = true;
+    socket.join(room.id);
+    
+    socket.emit("session_resumed", {
+      roomId: room.id,
+      isHost: room.hostId === playerId,
+      gameState: room.gameState,
+      players: room.players
+    });
+    socket.to(room.id).emit("player_reconnected", { playerId });
+    if (room.match?.phase === "over") {
+      updateRematchVotes(room);
+    }
+    console.log(`Player ${playerId} resumed in room: ${room.id}`);
+  }
+  
+  // Measure round-trip time with acknowledged probes
+  const latencyProbe = setInterval(() => {
+    const sentAt = Date.now();
+    // Untyped view: the typed timeout() decoration mis-infers argument-less acks
+    (socket as Socket).timeout(LATENCY_PROBE_INTERVAL_MS).emit("latency_probe", (err: Error | null) => {
+      if (err) return;
+      const sample = Date.now() - sentAt;
+      const previous = latencies.get(playerId);
+      latencies.set(playerId, previous === undefined ? sample : previous * 0.8 + sample * 0.2);
+    });
+  }, LATENCY_PROBE_INTERVAL_MS);
+
+  // Clock sync: echo the client's send time alongside ours
+  socket.on("clock_ping", (data) => {
+    const clientTime = parsePayload<number>(socket, "clock_ping", clockPingSchema, data);
+    if (clientTime === null) return;
+    socket.emit("clock_pong", { clientTime, serverTime: Date.now() });
+  });
+
+  // Room browser listing
+  socket.on("list_rooms", (ack) => {
+    if (typeof ack !== "function") return;
+    ack(listPublicRooms());
+  });
 
   // Create a new game room
-  socket.on("create_room", () => {
-    const roomId = uuidv4().substring(0, 8);
-    gameRooms[roomId] = {
-      id: roomId,
-      hostId: socket.id,
-      players: [{
-        id: socket.id,
-        position: { x: 0, y: 0, z: 0 },
-        rotation: { x: 0, y: 0, z: 0, w: 1 },
-        health: 100,
-        lightsaberPosition: { x: 0, y: 0, z: 0 },
-        lightsaberRotation: { x: 0, y: 0, z: 0, w: 1 },
-        isAttacking: false,
-        isBlocking: false
-      }],
-      gameState: "waiting"
-    };
+  socket.on("create_room", (data) => {
+    const options = parsePayload<CreateRoomOptions | undefined>(socket, "create_room", createRoomSchema, data);
+    if (options === null) return;
+    
+    const room = createGameRoom(playerId, options);
+    const roomId = room.id;
 
     // Join socket to the room
     socket.join(roomId);
     
-    // Send room info back to client
+    // Send room info back to client; invite-only rooms get their first invite baked in
     socket.emit("room_created", {
       roomId,
-      joinUrl: `${process.env.CLIENT_URL || "http://localhost:8080"}?room=${roomId}`
+      joinUrl: joinUrlFor(roomId, room.inviteOnly ? createInviteToken(room) : undefined),
+      gameMode: room.gameMode,
+      team: room.players[0].team
     });
+    emitBotSettings(room);
+    fillBots(room);
     
-    console.log(`Room created: ${roomId} by host: ${socket.id}`);
+    console.log(`Room created: ${roomId} by host: ${playerId}`);
   });
 
   // Join an existing game room
-  socket.on("join_room", (roomId) => {
+  socket.on("join_room", (data) => {
+    const request = parsePayload<JoinRoomPayload>(socket, "join_room", joinRoomSchema, data);
+    if (!request) return;
+    
+    const { roomId } = request;
     const room = gameRooms[roomId];
     
     if (!room) {
-      socket.emit("error", { message: "Room not found" });
+      socket.emit("error", { code: "room_not_found", message: "Room not found" });
       return;
     }
     
-    if (room.gameState !== "waiting") {
-      socket.emit("error", { message: "Game already in progress" });
+    // Spectators may come in mid-match and don't take player slots
+    if (request.asSpectator) {
+      if (room.spectatorIds.size >= MAX_SPECTATORS) {
+        socket.emit("error", { code: "room_full", message: "No spectator slots left" });
+        return;
+      }
+    } else {
+      if (room.gameState !== "waiting") {
+        socket.emit("error", { code: "game_in_progress", message: "Game already in progress" });
+        return;
+      }
+      
+      if (humanPlayers(room).length >= room.maxPlayers) {
+        socket.emit("error", { code: "room_full", message: "Room is full" });
+        return;
+      }
+    }
+    
+    // Bans, invites and passwords - checked last so a failed join never burns an invite
+    const accessError = checkRoomAccess(room, session, socket.handshake.address, request);
+    if (accessError) {
+      socket.emit("error", { code: accessError, message: ACCESS_ERROR_MESSAGES[accessError] });
+      console.log(`Join refused for ${playerId} in room ${roomId}: ${accessError}`);
+      return;
+    }
+    
+    if (request.asSpectator) {
+      room.spectatorIds.add(playerId);
+      socket.join(roomId);
+      
+      // Everything needed to start rendering the match; live events follow via the room channel
+      socket.emit("spectate_started", {
+        roomId,
+        gameState: room.gameState,
+        players: room.players,
+        spectatorCount: room.spectatorIds.size
+      });
+      io.to(roomId).emit("spectators_updated", { roomId, count: room.spectatorIds.size });
+      
+      console.log(`Spectator ${playerId} joined room: ${roomId}`);
       return;
     }
     
     // Add player to room
-    room.players.push({
-      id: socket.id,
-      position: { x: 0, y: 0, z: 5 }, // Start opposite the host
-      rotation: { x: 0, y: 0, z: 0, w: 1 },
-      health: 100,
-      lightsaberPosition: { x: 0, y: 0, z: 0 },
-      lightsaberRotation: { x: 0, y: 0, z: 0, w: 1 },
-      isAttacking: false,
-      isBlocking: false
-    });
+    addPlayerToRoom(room, playerId);
     
     // Join socket to the room
     socket.join(roomId);
     
     // Notify room that player joined
     io.to(roomId).emit("player_joined", {
-      playerId: socket.id,
+      playerId,
+      gameMode: room.gameMode,
       players: room.players
     });
     
-    console.log(`Player ${socket.id} joined room: ${roomId}`);
+    console.log(`Player ${playerId} joined room: ${roomId}`);
+    
+    // A bot steps aside for the new human
+    if (room.players.length > room.maxPlayers) {
+      removePlayerFromRoom(room, botToReplace(room).id);
+    }
+  });
+
+  // Ranked matchmaking queue
+  socket.on("join_queue", async (data) => {
+    const request = parsePayload<JoinQueuePayload>(socket, "join_queue", joinQueueSchema, data);
+    if (!request) return;
+    
+    if (roomsOf(playerId).length > 0) {
+      socket.emit("error", { code: "already_in_room", message: "Leave your current room before queueing" });
+      return;
+    }
+    
+    let record: RatingRecord;
+    try {
+      record = await loadRating(session.profileId);
+    } catch (error) {
+      console.error(`Could not load rating for ${playerId}:`, error);
+      return;
+    }
+    if (!socket.connected) return;
+    
+    const queuedAt = Date.now();
+    matchmaking.join({
+      playerId,
+      profileId: session.profileId,
+      rating: record.rating,
+      region: request.region,
+      queuedAt
+    });
+    socket.emit("queue_joined", {
+      rating: record.rating,
+      region: request.region,
+      queuedAt,
+      queueSize: matchmaking.size()
+    });
+    console.log(`Player ${playerId} queued in ${request.region} at ${record.rating}`);
+  });
+
+  socket.on("leave_queue", () => {
+    if (matchmaking.leave(playerId)) {
+      socket.emit("queue_left");
+    }
+  });
+
+  // Hand out a one-time invite link (host only)
+  socket.on("create_invite", (data, ack) => {
+    if (typeof ack !== "function") return;
+    
+    const request = parsePayload<CreateInvitePayload>(socket, "create_invite", createInviteSchema, data);
+    const room = request ? gameRooms[request.roomId] : undefined;
+    
+    if (!room || room.hostId !== playerId) {
+      socket.emit("error", { code: "not_authorized", message: "Only the host can create invites" });
+      ack(null);
+      return;
+    }
+    
+    const inviteToken = createInviteToken(room);
+    ack({ inviteToken, joinUrl: joinUrlFor(room.id, inviteToken) });
+  });
+
+  // Remove a player from the room, optionally for good (host only)
+  socket.on("kick_player", (data) => {
+    const kick = parsePayload<KickPlayerPayload>(socket, "kick_player", kickPlayerSchema, data);
+    if (!kick) return;
+    
+    const { roomId, targetId, ban } = kick;
+    const room = gameRooms[roomId];
+    
+    if (!room || room.hostId !== playerId) {
+      socket.emit("error", { code: "not_authorized", message: "Only the host can kick players" });
+      return;
+    }
+    
+    const targetIsSpectator = room.spectatorIds.has(targetId);
+    if (targetId === playerId || (!targetIsSpectator && !room.players.some(p => p.id === targetId))) {
+      socket.emit("error", { code: "player_not_found", message: "Player is not in this room" });
+      return;
+    }
+
+    // Removing the opponent would hand the host a rated forfeit win
+    if (room.isRanked && !targetIsSpectator) {
+      socket.emit("error", { code: "not_authorized", message: "Players can't be kicked from a ranked match" });
+      return;
+    }
+
+    const targetSession = sessions.findByPlayerId(targetId);
+    const targetSocket = targetSession?.socketId ? io.sockets.sockets.get(targetSession.socketId) : undefined;
+    if (ban) {
+      if (targetSession) {
+        banPlayer(room, targetSession, targetSocket?.handshake.address);
+      } else {
+        room.bannedPlayerIds.add(targetId);
+      }
+    }
+    
+    // Tell the target before they lose access to the room channel
+    if (targetSocket) {
+      targetSocket.emit("error", {
+        code: ban ? "banned" : "kicked",
+        message: ban ? "You were banned from the room by the host" : "You were kicked from the room by the host"
+      });
+      targetSocket.leave(roomId);
+    }
+    
+    if (targetIsSpectator) {
+      removeSpectator(room, targetId);
+    } else {
+      removePlayerFromRoom(room, targetId);
+    }
+    console.log(`Player ${targetId} ${ban ? "banned" : "kicked"} from room ${roomId} by ${playerId}`);
   });
 
   // Start the game (host only)
-  socket.on("start_game", (roomId) => {
+  socket.on("start_game", (data) => {
+    const roomId = parsePayload<string>(socket, "start_game", roomIdSchema, data);
+    if (roomId === null) return;
+    
     const room = gameRooms[roomId];
     
-    if (!room || room.hostId !== socket.id) {
-      socket.emit("error", { message: "Not authorized to start game" });
+    if (!room || room.hostId !== playerId) {
+      socket.emit("error", { code: "not_authorized", message: "Not authorized to start game" });
       return;
     }
     
-    room.gameState = "playing";
-    room.startTime = Date.now();
+    if (room.gameState !== "waiting") {
+      socket.emit("error", { code: "match_already_started", message: "The match has already started" });
+      return;
+    }
     
-    // Notify all players that game is starting
-    io.to(roomId).emit("game_started", {
-      startTime: room.startTime,
-      players: room.players
-    });
+    if (room.players.length < 2) {
+      socket.emit("error", { code: "not_enough_players", message: "Need at least two players to start" });
+      return;
+    }
+    
+    if (room.gameMode === "teams" && TEAMS.some(team => !room.players.some(p => p.team === team))) {
+      socket.emit("error", { code: "not_enough_players", message: "Both teams need at least one player" });
+      return;
+    }
+    
+    // Notify all players that game is starting; the first round follows
+    startMatch(room);
     
     console.log(`Game started in room: ${roomId}`);
   });
 
-  // Player updates their position/state
-  socket.on("player_update", (data) => {
-    const { roomId, position, rotation, lightsaberPosition, lightsaberRotation, isAttacking, isBlocking } = data;
+  // Host changes how bots fill the room
+  socket.on("update_bot_settings", (data) => {
+    const request = parsePayload<BotSettingsPayload>(socket, "update_bot_settings", botSettingsSchema, data);
+    if (!request) return;
+    
+    const room = gameRooms[request.roomId];
+    if (!room || room.hostId !== playerId) {
+      socket.emit("error", { code: "not_authorized", message: "Only the host can change bot settings" });
+      return;
+    }
+    
+    if (request.difficulty) room.botDifficulty = request.difficulty;
+    if (request.fillWithBots !== undefined) room.fillWithBots = request.fillWithBots && !room.isRanked;
+    
+    // Slots only change hands between matches
+    if (room.gameState === "waiting") {
+      if (room.fillWithBots) {
+        fillBots(room);
+      } else {
+        botsIn(room).forEach(bot => removePlayerFromRoom(room, bot.id));
+      }
+    }
+    
+    emitBotSettings(room);
+    console.log(`Room ${room.id} bots: fill=${room.fillWithBots} difficulty=${room.botDifficulty}`);
+  });
+
+  // Switch teams in the lobby (team mode only)
+  socket.on("choose_team", (data) => {
+    const request = parsePayload<ChooseTeamPayload>(socket, "choose_team", chooseTeamSchema, data);
+    if (!request) return;
+    
+    const room = gameRooms[request.roomId];
+    const player = room?.players.find(p => p.id === playerId);
+    if (!room || !player || room.gameMode !== "teams" || room.gameState !== "waiting") return;
+    if (player.team === request.team) return;
+    
+    const teamSize = room.players.filter(p => p.team === request.team).length;
+    if (teamSize >= room.maxPlayers / 2) {
+      socket.emit("error", { code: "team_full", message: `The ${request.team} team is full` });
+      return;
+    }
+    
+    player.team = request.team;
+    resetPlayers(room);
+    io.to(room.id).emit("team_changed", { playerId, team: request.team });
+    console.log(`Player ${playerId} switched to ${request.team} in room ${room.id}`);
+  });
+
+  // Vote to play again once a match is over
+  socket.on("rematch_vote", (data) => {
+    const roomId = parsePayload<string>(socket, "rematch_vote", roomIdSchema, data);
+    if (roomId === null) return;
+    
     const room = gameRooms[roomId];
+    if (!room || room.match?.phase !== "over" || !room.players.some(p => p.id === playerId)) return;
     
-    if (!room) return;
+    room.match.rematchVotes.add(playerId);
+    updateRematchVotes(room);
+  });
+
+  // Host streams the pose of one of the room's bots
+  const handleBotUpdate = (update: PlayerUpdatePayload) => {
+    const { roomId, timestamp, position, rotation, lightsaberPosition, lightsaberRotation, isAttacking, isBlocking, stance, attackType, botId } = update;
+    const room = gameRooms[roomId];
+    if (!room || !canDriveBot(room, playerId, botId)) return;
     
-    // Find and update player
-    const player = room.players.find(p => p.id === socket.id);
-    if (player) {
-      player.position = position;
-      player.rotation = rotation;
-      player.lightsaberPosition = lightsaberPosition;
-      player.lightsaberRotation = lightsaberRotation;
-      player.isAttacking = isAttacking;
-      player.isBlocking = isBlocking;
-      
-      // Broadcast update to other players in room
-      socket.to(roomId).emit("player_updated", {
-        playerId: socket.id,
-        position,
-        rotation,
-        lightsaberPosition,
-        lightsaberRotation,
-        isAttacking,
-        isBlocking
-      });
+    const bot = room.players.find(p => p.id === botId);
+    const now = Date.now();
+    const violation = checkPoseMove(bot, position, now);
+    if (violation) {
+      // Right after a respawn this is just a pose from before the host heard about it
+      if (!inRespawnGrace(bot, now)) {
+        const { x, y, z } = position;
+        addStrike(socket, violation, `bot ${botId} to (${x.toFixed(1)}, ${y.toFixed(1)}, ${z.toFixed(1)})`);
+      }
+      return;
     }
+    bot.lastPoseAt = now;
+    
+    applyCombatState(bot, isAttacking, isBlocking, stance, attackType);
+    bot.position = position;
+    bot.rotation = rotation;
+    bot.lightsaberPosition = lightsaberPosition;
+    bot.lightsaberRotation = lightsaberRotation;
+    
+    queuePose(room, bot, timestamp ?? Date.now());
+  };
+  
+  socket.on("player_update", (data) => {
+    const update = parsePayload<PlayerUpdatePayload>(socket, "player_update", playerUpdateSchema, data);
+    if (update) handleBotUpdate(update);
+  });
+  
+  socket.on("player_update_bin", (roomId, data) => {
+    const decoded = decodeBinary(socket, "player_update_bin", data, (buffer) => decodeBotUpdate(roomId, buffer));
+    if (!decoded) return;
+    const update = parsePayload<PlayerUpdatePayload>(socket, "player_update_bin", playerUpdateSchema, decoded);
+    if (update) handleBotUpdate(update);
   });
 
-  // Combat hit detection
+  // Player input - the server moves the player through each frame of the
+  // batch and acknowledges the last one it applied
+  const handlePlayerInputs = (roomId: string, inputs: PlayerInputCommand[]) => {
+    const room = gameRooms[roomId];
+    const player = room?.players.find(p => p.id === playerId);
+    if (!room || !player) return;
+    
+    const now = Date.now();
+    let lastApplied: PlayerInputCommand | null = null;
+    for (const input of inputs) {
+      if (!applyPlayerInput(player, input, now)) continue;
+      applyCombatState(player, input.isAttacking, input.isBlocking, input.stance, input.attackType);
+      // Keep it as a baseline for later binary inputs
+      inputHistories.get(playerId)?.remember(input);
+      lastApplied = input;
+    }
+    if (!lastApplied) return;
+    
+    socket.emit("input_ack", {
+      sequence: lastApplied.sequence,
+      position: player.position,
+      velocityY: player.velocityY,
+      grounded: player.grounded
+    });
+    queuePose(room, player, lastApplied.timestamp ?? now);
+  };
+  
+  socket.on("player_input", (data) => {
+    const batch = parsePayload<PlayerInputBatchPayload>(socket, "player_input", playerInputBatchSchema, data);
+    if (batch) handlePlayerInputs(batch.roomId, batch.inputs);
+  });
+  
+  socket.on("player_input_bin", (roomId, data) => {
+    // Null without an error when the delta baseline has already been forgotten
+    const history = inputHistories.get(playerId);
+    const inputs = decodeBinary(socket, "player_input_bin", data, (buffer) =>
+      decodeInputBatch(buffer, sequence => history?.get(sequence))
+    );
+    if (!inputs) return;
+    const batch = parsePayload<PlayerInputBatchPayload>(socket, "player_input_bin", playerInputBatchSchema, { roomId, inputs });
+    if (batch) handlePlayerInputs(batch.roomId, batch.inputs);
+  });
+
+  // The client decoded a binary world snapshot; later ones can delta against it
+  socket.on("snapshot_ack", (data) => {
+    const tick = parsePayload<number>(socket, "snapshot_ack", snapshotAckSchema, data);
+    if (tick !== null) socket.data.snapshots.acknowledge(tick);
+  });
+
+  // Combat hit detection - the client only reports a target, the server decides
   socket.on("player_hit", (data) => {
-    const { roomId, targetId, damage } = data;
+    const hit = parsePayload<PlayerHitPayload>(socket, "player_hit", playerHitSchema, data);
+    if (!hit) return;
+    
+    const { roomId, targetId, botId } = hit;
     const room = gameRooms[roomId];
     
     if (!room) return;
     
-    // Find target player
+    // Hits by bots are reported by the host simulating them
+    if (botId && !canDriveBot(room, playerId, botId)) return;
+    const attackerId = botId ?? playerId;
+    
+    const rejectHit = (reason: HitRejectionReason) => {
+      socket.emit("hit_rejected", { targetId, reason });
+      console.log(`Hit rejected in room ${roomId}: ${attackerId} -> ${targetId} (${reason})`);
+    };
+    
+    if (room.gameState !== "playing") {
+      rejectHit("game_not_playing");
+      return;
+    }
+    
+    if (!isRoundActive(room.match)) {
+      rejectHit("round_not_active");
+      return;
+    }
+    
+    const attacker = room.players.find(p => p.id === attackerId);
     const targetPlayer = room.players.find(p => p.id === targetId);
-    if (targetPlayer) {
-      targetPlayer.health = Math.max(0, targetPlayer.health - damage);
-      
-      // Broadcast hit to all players in room
-      io.to(roomId).emit("player_damaged", {
+    const now = Date.now();
+    
+    // Rewind the target to where the attacker saw them
+    let rewoundTarget = targetPlayer;
+    const viewTime = estimateViewTime(now, latencies.get(playerId) ?? 0);
+    const pastPose = targetPlayer ? poseHistories.get(targetPlayer.id)?.sampleAt(viewTime) : null;
+    if (pastPose) {
+      rewoundTarget = { ...targetPlayer, position: pastPose.position, isBlocking: pastPose.isBlocking };
+    }
+    
+    const result = validateHit(attacker, rewoundTarget, now);
+    
+    if (result.valid === false) {
+      rejectHit(result.reason);
+      return;
+    }
+    
+    // Teammates are off limits unless the host turned friendly fire on
+    if (room.gameMode === "teams" && !room.friendlyFire && attacker.team === targetPlayer.team) {
+      rejectHit("friendly_fire");
+      return;
+    }
+    
+    attacker.hitLandedInAttack = true;
+    attacker.lastHitAt = now;
+    // In sudden death any clean hit finishes the round
+    const damage = room.match.phase === "sudden_death" ? targetPlayer.health : result.damage;
+    targetPlayer.health = Math.max(0, targetPlayer.health - damage);
+    recordDamage(room, attacker, targetPlayer, damage);
+    
+    // Broadcast hit to all players in room
+    io.to(roomId).emit("player_damaged", {
+      playerId: targetId,
+      health: targetPlayer.health,
+      attackerId,
+      damage,
+      contactPoint: result.contactPoint
+    });
+    
+    // Check for the end of the round
+    if (targetPlayer.health <= 0) {
+      io.to(roomId).emit("player_defeated", {
         playerId: targetId,
-        health: targetPlayer.health,
-        attackerId: socket.id
+        winnerId: attackerId
       });
       
-      // Check for game over
-      if (targetPlayer.health <= 0) {
-        io.to(roomId).emit("player_defeated", {
-          playerId: targetId,
-          winnerId: socket.id
-        });
-        
-        room.gameState = "finished";
-      }
+      checkRoundOver(room);
     }
   });
 
-  // Disconnect handling
+  // Chat line or quick-chat emote, relayed to everyone in the room
+  socket.on("chat_message", (data) => {
+    const message = parsePayload<ChatMessagePayload>(socket, "chat_message", chatMessageSchema, data);
+    if (!message) return;
+    
+    const room = gameRooms[message.roomId];
+    const isSpectator = room?.spectatorIds.has(playerId) ?? false;
+    if (!room || (!isSpectator && !room.players.some(p => p.id === playerId))) return;
+    
+    if (!chatLimiter.tryConsume(playerId)) {
+      socket.emit("error", { code: "rate_limited", message: "You are sending messages too quickly" });
+      return;
+    }
+    
+    let text = "";
+    if (message.text !== undefined) {
+      text = prepareChatText(message.text, playerId);
+      if (text === null) return;
+    }
+    
+    io.to(room.id).emit("chat_message", {
+      roomId: room.id,
+      playerId,
+      text,
+      emote: message.emote ?? null,
+      isSpectator,
+      sentAt: Date.now()
+    });
+  });
+
+  // Disconnect handling - hold the player's slot open for a grace period
   socket.on("disconnect", () => {
-    console.log(`User disconnected: ${socket.id}`);
+    console.log(`User disconnected: ${socket.id} (player ${playerId})`);
+    
+    clearInterval(latencyProbe);
+    
+    // Superseded by a newer connection for the same session
+    if (session.socketId !== socket.id) return;
+    session.socketId = null;
+    
+    matchmaking.leave(playerId);
+    
+    // Spectators have no slot to hold
+    for (const room of Object.values(gameRooms)) {
+      removeSpectator(room, playerId);
+    }
     
-    // Find rooms player is in
-    for (const roomId in gameRooms) {
-      const room = gameRooms[roomId];
+    const rooms = roomsOf(playerId);
+    const forgetPlayer = () => {
+      sessions.delete(session);
+      poseHistories.delete(playerId);
+      inputHistories.delete(playerId);
+      latencies.delete(playerId);
+      chatLimiter.forget(playerId);
+    };
+    
+    if (rooms.length === 0) {
+      forgetPlayer();
+      return;
+    }
+    
+    for (const room of rooms) {
+      const player = room.players.find(p => p.id === playerId);
+      player.isConnected = false;
+      player.isAttacking = false;
+      player.isBlocking = false;
+      io.to(room.id).emit("player_disconnected", { playerId, graceMs: RECONNECT_GRACE_MS });
       
-      // Remove player from room
-      const playerIndex = room.players.findIndex(p => p.id === socket.id);
-      if (playerIndex !== -1) {
-        room.players.splice(playerIndex, 1);
-        
-        // If host left, end the game
-        if (room.hostId === socket.id) {
-          io.to(roomId).emit("host_disconnected");
-          delete gameRooms[roomId];
-          console.log(`Room ${roomId} closed: host disconnected`);
-        } else {
-          // Notify other players
-          io.to(roomId).emit("player_left", { playerId: socket.id });
-          console.log(`Player ${socket.id} left room: ${roomId}`);
-        }
+      // Don't leave the room without a host while we wait
+      if (room.hostId === playerId) {
+        migrateHost(room, true);
+      }
+      
+      // The rest may now have all the votes a rematch needs
+      if (room.match?.phase === "over") {
+        updateRematchVotes(room);
       }
     }
+    
+    session.graceTimer = setTimeout(() => {
+      session.graceTimer = null;
+      console.log(`Player ${playerId} did not reconnect within ${RECONNECT_GRACE_MS}ms`);
+      for (const room of roomsOf(playerId)) {
+        removePlayerFromRoom(room, playerId);
+      }
+      forgetPlayer();
+    }, RECONNECT_GRACE_MS);
   });
 });
 
 // Start server
 const PORT = process.env.PORT || 3000;
 server.listen(PORT, () => {
-  console.log(`Game server running on port ${PORT}`);
+  console.log(`Game server running on port ${PORT} at ${TICK_RATE} ticks/s`);
 }); 
\ No newline at end of file
@@ -0,0 +1,82 @@
+import type { InputCommand } from "../src/utils/network/InputPredictor";
+import { MovementState, clampSaberOffset, stepMovement, yawToQuat } from "../src/utils/network/movement";
+import { Quat, RoomPlayer } from "./types";
+
+// Recent inputs kept per player as delta baselines. The client only deltas
+// against fairly recent acks, so this comfortably covers them.
+const INPUT_HISTORY_SIZE = 128;
+
+/**
+ * The last few inputs a player sent, by sequence number, so a binary input
+ * encoded against one of them can be filled back in.
+ */
+export class InputHistory {
+  private inputs = new Map<number, InputCommand>();
+
+  remember(command: InputCommand): void {
+    this.inputs.set(command.sequence, command);
+    if (this.inputs.size > INPUT_HISTORY_SIZE) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      this.inputs.delete(this.inputs.keys().next().value);
+    }
+  }
+
+  get(sequence: number): InputCommand | undefined {
+    return this.inputs.get(sequence);
+  }
+}
+
+// Input time a client may bank, so a burst of delayed packets still plays out.
+// Anything claimed beyond real elapsed time plus this is cut short.
+const MAX_INPUT_TIME_BUDGET = 0.25;
+
+function normalizeQuat(q: Quat): Quat {
+  const length = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z + q.w * q.w);
+  if (length < 1e-6) return { x: 0, y: 0, z: 0, w: 1 };
+  return { x: q.x / length, y: q.y / length, z: q.z / length, w: q.w / length };
+}
+
+/**
+ * Move a player by one input command. Positions are only ever the result of
+ * simulating inputs, so a client cannot teleport, and the time budget stops
+ * it from claiming more movement time than has actually passed.
+ * Returns false for duplicate or out-of-order commands, which are ignored.
+ */
+export function applyPlayerInput(player: RoomPlayer, input: InputCommand, now: number): boolean {
+  if (input.sequence <= player.lastInputSequence) return false;
+  player.lastInputSequence = input.sequence;
+
+  player.inputTimeBudget = Math.min(
+    MAX_INPUT_TIME_BUDGET,
+    player.inputTimeBudget + (now - player.inputBudgetAt) / 1000
+  );
+  player.inputBudgetAt = now;
+  const dt = Math.min(input.dt, player.inputTimeBudget);
+  player.inputTimeBudget -= dt;
+
+  // Defeated players stay where they fell. Copy the position: the old one
+  // may still be referenced by the lag-compensation history.
+  if (player.health > 0) {
+    const state: MovementState = {
+      position: { ...player.position },
+      velocityY: player.velocityY,
+      grounded: player.grounded
+    };
+    stepMovement(state, input, dt);
+    player.position = state.position;
+    player.velocityY = state.velocityY;
+    player.grounded = state.grounded;
+  }
+
+  player.rotation = yawToQuat(input.yaw);
+
+  // The blade is carried with the authoritative body, within arm's reach of it
+  const offset = clampSaberOffset(input.saberOffset);
+  player.lightsaberPosition = {
+    x: player.position.x + offset.x,
+    y: player.position.y + offset.y,
+    z: player.position.z + offset.z
+  };
+  player.lightsaberRotation = normalizeQuat(input.saberRotation);
+  return true;
+}
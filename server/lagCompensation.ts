@@ -0,0 +1,78 @@
+import { Vec3 } from "./types";
+
+// Upper bound on how far back a target may be rewound (ms)
+export const MAX_REWIND_MS = Number(process.env.LAG_COMP_MAX_REWIND_MS) || 250;
+
+// How far behind real time clients render remote players (ms)
+export const INTERPOLATION_DELAY_MS = Number(process.env.LAG_COMP_INTERP_DELAY_MS) || 100;
+
+// Extra history kept beyond the rewind window so interpolation has a bracket
+const HISTORY_MARGIN_MS = 200;
+const MAX_HISTORY_SNAPSHOTS = 64;
+
+export interface PoseSnapshot {
+  time: number;
+  position: Vec3;
+  isBlocking: boolean;
+}
+
+/**
+ * Short, time-ordered history of one player's pose, used to rewind them
+ * to the moment an attacker actually saw them
+ */
+export class PoseHistory {
+  private snapshots: PoseSnapshot[] = [];
+
+  record(snapshot: PoseSnapshot): void {
+    this.snapshots.push(snapshot);
+
+    const cutoff = snapshot.time - MAX_REWIND_MS - HISTORY_MARGIN_MS;
+    while (
+      this.snapshots.length > MAX_HISTORY_SNAPSHOTS ||
+      (this.snapshots.length > 2 && this.snapshots[0].time < cutoff)
+    ) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * Pose at the given time, interpolated between the two bracketing snapshots
+   */
+  sampleAt(time: number): PoseSnapshot | null {
+    if (this.snapshots.length === 0) return null;
+
+    const first = this.snapshots[0];
+    const last = this.snapshots[this.snapshots.length - 1];
+    if (time <= first.time) return first;
+    if (time >= last.time) return last;
+
+    for (let i = this.snapshots.length - 1; i > 0; i--) {
+      const older = this.snapshots[i - 1];
+      const newer = this.snapshots[i];
+      if (older.time <= time && time <= newer.time) {
+        const span = newer.time - older.time;
+        const t = span > 0 ? (time - older.time) / span : 1;
+        return {
+          time,
+          position: {
+            x: older.position.x + (newer.position.x - older.position.x) * t,
+            y: older.position.y + (newer.position.y - older.position.y) * t,
+            z: older.position.z + (newer.position.z - older.position.z) * t
+          },
+          isBlocking: t < 0.5 ? older.isBlocking : newer.isBlocking
+        };
+      }
+    }
+
+    return last;
+  }
+}
+
+/**
+ * Server time the attacker was looking at when they swung: half their
+ * round trip plus the client interpolation delay, capped at MAX_REWIND_MS
+ */
+export function estimateViewTime(now: number, attackerRtt: number): number {
+  const rewind = Math.min(MAX_REWIND_MS, attackerRtt / 2 + INTERPOLATION_DELAY_MS);
+  return now - Math.max(0, rewind);
+}
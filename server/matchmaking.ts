@@ -0,0 +1,78 @@
+import { QueueEntry } from "./types";
+
+// Rating gap accepted straight away, and how fast it widens while waiting
+const BASE_RATING_WINDOW = 100;
+const RATING_WINDOW_GROWTH_PER_SEC = 10;
+const MAX_RATING_WINDOW = 600;
+
+// After this long a player will be matched outside their region
+export const REGION_RELAX_MS = Number(process.env.MATCHMAKING_REGION_RELAX_MS) || 30000;
+
+function ratingWindow(entry: QueueEntry, now: number): number {
+  const waitedSec = (now - entry.queuedAt) / 1000;
+  return Math.min(MAX_RATING_WINDOW, BASE_RATING_WINDOW + waitedSec * RATING_WINDOW_GROWTH_PER_SEC);
+}
+
+function compatible(a: QueueEntry, b: QueueEntry, now: number): boolean {
+  const sameRegion = a.region === b.region;
+  const regionOk = sameRegion || (now - a.queuedAt >= REGION_RELAX_MS && now - b.queuedAt >= REGION_RELAX_MS);
+  // Both sides have to accept the gap, so a newcomer isn't thrown at a veteran
+  const gap = Math.abs(a.rating - b.rating);
+  return regionOk && gap <= ratingWindow(a, now) && gap <= ratingWindow(b, now);
+}
+
+/**
+ * Players waiting for a ranked duel. Matching is greedy: the longest-waiting
+ * player gets the closest-rated compatible opponent.
+ */
+export class MatchmakingQueue {
+  private entries: QueueEntry[] = [];
+
+  join(entry: QueueEntry): void {
+    this.leave(entry.playerId);
+    this.entries.push(entry);
+  }
+
+  leave(playerId: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.playerId !== playerId);
+    return this.entries.length !== before;
+  }
+
+  has(playerId: string): boolean {
+    return this.entries.some(entry => entry.playerId === playerId);
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  // Remove and return every pair that can be matched right now
+  takeMatches(now: number): [QueueEntry, QueueEntry][] {
+    const waiting = [...this.entries].sort((a, b) => a.queuedAt - b.queuedAt);
+    const matched = new Set<string>();
+    const pairs: [QueueEntry, QueueEntry][] = [];
+
+    for (const entry of waiting) {
+      if (matched.has(entry.playerId)) continue;
+
+      let best: QueueEntry | null = null;
+      for (const candidate of waiting) {
+        if (candidate === entry || matched.has(candidate.playerId)) continue;
+        if (!compatible(entry, candidate, now)) continue;
+        if (!best || Math.abs(candidate.rating - entry.rating) < Math.abs(best.rating - entry.rating)) {
+          best = candidate;
+        }
+      }
+
+      if (best) {
+        matched.add(entry.playerId);
+        matched.add(best.playerId);
+        pairs.push([entry, best]);
+      }
+    }
+
+    this.entries = this.entries.filter(entry => !matched.has(entry.playerId));
+    return pairs;
+  }
+}
@@ -0,0 +1,116 @@
+import { GameState } from "../src/utils/network/protocol";
+
+// Events per second is averaged over this many whole seconds
+const EVENT_WINDOW_SECONDS = 10;
+
+// Average tick time covers this many recent ticks
+const TICK_SAMPLES = 100;
+
+/**
+ * Counters behind /metrics. Cheap enough to update on every socket event.
+ */
+export class ServerMetrics {
+  private eventsTotal = 0;
+  private droppedEventsTotal = 0;
+  private strikeDisconnectsTotal = 0;
+  // Events per wall-clock second, as a ring indexed by second
+  private eventCounts: number[] = new Array(EVENT_WINDOW_SECONDS + 1).fill(0);
+  private countedSecond = 0;
+  private tickDurations: number[] = [];
+  private nextTickSlot = 0;
+
+  recordEvent(now: number = Date.now()): void {
+    this.eventsTotal++;
+    this.eventCounts[this.advanceTo(now)]++;
+  }
+
+  recordDroppedEvent(): void {
+    this.droppedEventsTotal++;
+  }
+
+  recordStrikeDisconnect(): void {
+    this.strikeDisconnectsTotal++;
+  }
+
+  recordTick(durationMs: number): void {
+    this.tickDurations[this.nextTickSlot] = durationMs;
+    this.nextTickSlot = (this.nextTickSlot + 1) % TICK_SAMPLES;
+  }
+
+  // Average over the last complete seconds; the current one is still filling up
+  eventsPerSecond(now: number = Date.now()): number {
+    const current = this.advanceTo(now);
+    const total = this.eventCounts.reduce((sum, count, slot) => (slot === current ? sum : sum + count), 0);
+    return total / EVENT_WINDOW_SECONDS;
+  }
+
+  averageTickMs(): number {
+    if (this.tickDurations.length === 0) return 0;
+    return this.tickDurations.reduce((sum, duration) => sum + duration, 0) / this.tickDurations.length;
+  }
+
+  totals() {
+    return {
+      events: this.eventsTotal,
+      droppedEvents: this.droppedEventsTotal,
+      strikeDisconnects: this.strikeDisconnectsTotal
+    };
+  }
+
+  // Clears the slots of seconds that passed without events; returns the current slot
+  private advanceTo(now: number): number {
+    const second = Math.floor(now / 1000);
+    const stale = Math.min(second - this.countedSecond, this.eventCounts.length);
+    for (let i = 1; i <= stale; i++) {
+      this.eventCounts[(this.countedSecond + i) % this.eventCounts.length] = 0;
+    }
+    this.countedSecond = Math.max(this.countedSecond, second);
+    return this.countedSecond % this.eventCounts.length;
+  }
+}
+
+export interface MetricsSample {
+  connectedSockets: number;
+  roomsByState: Record<GameState, number>;
+  eventsPerSecond: number;
+  eventsTotal: number;
+  droppedEventsTotal: number;
+  strikeDisconnectsTotal: number;
+  averageTickMs: number;
+  tickRate: number;
+}
+
+function metric(name: string, type: "gauge" | "counter", help: string, lines: string[]): string {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...lines].join("\n");
+}
+
+// Prometheus text exposition format, version 0.0.4
+export function renderMetrics(sample: MetricsSample): string {
+  const roomLines = (Object.keys(sample.roomsByState) as GameState[]).map(
+    state => `lightsaber_rooms{state="${state}"} ${sample.roomsByState[state]}`
+  );
+  return [
+    metric("lightsaber_connected_sockets", "gauge", "Sockets currently connected.", [
+      `lightsaber_connected_sockets ${sample.connectedSockets}`
+    ]),
+    metric("lightsaber_rooms", "gauge", "Game rooms by state.", roomLines),
+    metric("lightsaber_events_per_second", "gauge", `Client events received per second, averaged over ${EVENT_WINDOW_SECONDS}s.`, [
+      `lightsaber_events_per_second ${sample.eventsPerSecond}`
+    ]),
+    metric("lightsaber_events_received_total", "counter", "Client events received.", [
+      `lightsaber_events_received_total ${sample.eventsTotal}`
+    ]),
+    metric("lightsaber_events_dropped_total", "counter", "Client events dropped by rate limits.", [
+      `lightsaber_events_dropped_total ${sample.droppedEventsTotal}`
+    ]),
+    metric("lightsaber_strike_disconnects_total", "counter", "Sockets disconnected for too many strikes.", [
+      `lightsaber_strike_disconnects_total ${sample.strikeDisconnectsTotal}`
+    ]),
+    metric("lightsaber_tick_duration_ms", "gauge", `Average server tick time over the last ${TICK_SAMPLES} ticks.`, [
+      `lightsaber_tick_duration_ms ${sample.averageTickMs}`
+    ]),
+    metric("lightsaber_tick_rate", "gauge", "Configured server ticks per second.", [
+      `lightsaber_tick_rate ${sample.tickRate}`
+    ])
+  ].join("\n") + "\n";
+}
@@ -0,0 +1,55 @@
+import { RatingRecord } from "./types";
+
+export const DEFAULT_RATING = 1200;
+
+// Players move faster while their rating is still provisional
+const PROVISIONAL_GAMES = 20;
+const PROVISIONAL_K = 40;
+const ESTABLISHED_K = 24;
+
+function kFactor(record: RatingRecord): number {
+  return record.gamesPlayed < PROVISIONAL_GAMES ? PROVISIONAL_K : ESTABLISHED_K;
+}
+
+// Probability that a player rated `rating` beats one rated `opponentRating`
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+export function newRatingRecord(profileId: string): RatingRecord {
+  return {
+    profileId,
+    rating: DEFAULT_RATING,
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Elo update for a decisive result. Returns new records; the inputs are
+ * left untouched.
+ */
+export function applyMatchResult(winner: RatingRecord, loser: RatingRecord): { winner: RatingRecord; loser: RatingRecord } {
+  const winnerExpected = expectedScore(winner.rating, loser.rating);
+  const loserExpected = 1 - winnerExpected;
+  const now = Date.now();
+
+  return {
+    winner: {
+      ...winner,
+      rating: Math.round(winner.rating + kFactor(winner) * (1 - winnerExpected)),
+      gamesPlayed: winner.gamesPlayed + 1,
+      wins: winner.wins + 1,
+      updatedAt: now
+    },
+    loser: {
+      ...loser,
+      rating: Math.round(loser.rating + kFactor(loser) * (0 - loserExpected)),
+      gamesPlayed: loser.gamesPlayed + 1,
+      losses: loser.losses + 1,
+      updatedAt: now
+    }
+  };
+}
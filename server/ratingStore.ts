@@ -0,0 +1,160 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { RatingRecord } from "./types";
+
+/**
+ * Where player ratings live between server restarts. Pick one with
+ * RATING_STORE=json|sqlite|memory (default json).
+ */
+export interface RatingStore {
+  get(profileId: string): Promise<RatingRecord | null>;
+  save(record: RatingRecord): Promise<void>;
+}
+
+// Nothing persisted; handy for local testing
+export class MemoryRatingStore implements RatingStore {
+  private records = new Map<string, RatingRecord>();
+
+  async get(profileId: string): Promise<RatingRecord | null> {
+    return this.records.get(profileId) ?? null;
+  }
+
+  async save(record: RatingRecord): Promise<void> {
+    this.records.set(record.profileId, record);
+  }
+}
+
+/**
+ * Whole table kept in memory and flushed to a JSON file after changes.
+ * Writes go to a temp file first so a crash can't leave it half-written.
+ */
+export class JsonFileRatingStore implements RatingStore {
+  private filePath: string;
+  private records: Map<string, RatingRecord> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(profileId: string): Promise<RatingRecord | null> {
+    const records = await this.load();
+    return records.get(profileId) ?? null;
+  }
+
+  async save(record: RatingRecord): Promise<void> {
+    const records = await this.load();
+    records.set(record.profileId, record);
+
+    // Serialise writes so two saves can't interleave on disk
+    this.pendingWrite = this.pendingWrite.then(() => this.flush(), () => this.flush());
+    return this.pendingWrite;
+  }
+
+  private async load(): Promise<Map<string, RatingRecord>> {
+    if (this.records) return this.records;
+
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const list = JSON.parse(raw) as RatingRecord[];
+      this.records = new Map(list.map(record => [record.profileId, record]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Could not read ratings from ${this.filePath}:`, error);
+      }
+      this.records = new Map();
+    }
+    return this.records;
+  }
+
+  private async flush(): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(Array.from(this.records.values()), null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+// The subset of node:sqlite (Node 22.5+) used below
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    get(...params: unknown[]): unknown;
+    run(...params: unknown[]): unknown;
+  };
+}
+
+/**
+ * SQLite-backed store using Node's built-in driver, so no native addon is
+ * needed. Fails at startup on Node versions without node:sqlite.
+ */
+export class SqliteRatingStore implements RatingStore {
+  private db: Promise<SqliteDatabase>;
+
+  constructor(filePath: string) {
+    this.db = this.open(filePath);
+    this.db.catch(error => console.error(`Could not open ratings database ${filePath}:`, error));
+  }
+
+  async get(profileId: string): Promise<RatingRecord | null> {
+    const db = await this.db;
+    const row = db
+      .prepare("SELECT profile_id, rating, games_played, wins, losses, updated_at FROM ratings WHERE profile_id = ?")
+      .get(profileId) as Record<string, number | string> | undefined;
+    if (!row) return null;
+
+    return {
+      profileId: String(row.profile_id),
+      rating: Number(row.rating),
+      gamesPlayed: Number(row.games_played),
+      wins: Number(row.wins),
+      losses: Number(row.losses),
+      updatedAt: Number(row.updated_at)
+    };
+  }
+
+  async save(record: RatingRecord): Promise<void> {
+    const db = await this.db;
+    db.prepare(
+      `INSERT INTO ratings (profile_id, rating, games_played, wins, losses, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(profile_id) DO UPDATE SET
+         rating = excluded.rating,
+         games_played = excluded.games_played,
+         wins = excluded.wins,
+         losses = excluded.losses,
+         updated_at = excluded.updated_at`
+    ).run(record.profileId, record.rating, record.gamesPlayed, record.wins, record.losses, record.updatedAt);
+  }
+
+  private async open(filePath: string): Promise<SqliteDatabase> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const sqlite = (await import("node:sqlite" as string)) as {
+      DatabaseSync: new (location: string) => SqliteDatabase;
+    };
+    const db = new sqlite.DatabaseSync(filePath);
+    db.exec(`CREATE TABLE IF NOT EXISTS ratings (
+      profile_id TEXT PRIMARY KEY,
+      rating INTEGER NOT NULL,
+      games_played INTEGER NOT NULL,
+      wins INTEGER NOT NULL,
+      losses INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`);
+    return db;
+  }
+}
+
+export function createRatingStore(): RatingStore {
+  const kind = process.env.RATING_STORE || "json";
+  switch (kind) {
+    case "memory":
+      return new MemoryRatingStore();
+    case "sqlite":
+      return new SqliteRatingStore(process.env.RATING_DB_PATH || "data/ratings.sqlite");
+    case "json":
+      return new JsonFileRatingStore(process.env.RATING_FILE_PATH || "data/ratings.json");
+    default:
+      throw new Error(`Unknown RATING_STORE "${kind}" (expected json, sqlite or memory)`);
+  }
+}
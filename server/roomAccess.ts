@@ -0,0 +1,75 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { JoinRoomPayload } from "../src/utils/network/protocol";
+import { GameRoom, PlayerSession } from "./types";
+
+export type AccessError = "banned" | "invite_required" | "invite_invalid" | "password_required" | "wrong_password";
+
+export const ACCESS_ERROR_MESSAGES: Record<AccessError, string> = {
+  banned: "You are banned from this room",
+  invite_required: "This room is invite-only",
+  invite_invalid: "Invite link is invalid or has already been used",
+  password_required: "This room needs a password",
+  wrong_password: "Wrong room password"
+};
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Stored as "salt:hash", both hex
+export function hashPassword(password: string): string {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = scryptSync(password, salt, KEY_BYTES);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [saltHex, hashHex] = stored.split(":");
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function createInviteToken(room: GameRoom): string {
+  const token = randomBytes(12).toString("base64url");
+  room.inviteTokens.add(token);
+  return token;
+}
+
+// Ban a player under every identity we know them by
+export function banPlayer(room: GameRoom, session: PlayerSession, address: string | undefined): void {
+  room.bannedPlayerIds.add(session.playerId);
+  room.bannedProfileIds.add(session.profileId);
+  if (address) room.bannedAddresses.add(address);
+}
+
+function isBanned(room: GameRoom, session: PlayerSession, address: string): boolean {
+  return room.bannedPlayerIds.has(session.playerId) ||
+    room.bannedProfileIds.has(session.profileId) ||
+    room.bannedAddresses.has(address);
+}
+
+/**
+ * Check a join request against the room's ban list, invite and password
+ * requirements. Returns the error to report, or null if the player may join.
+ * A valid invite is consumed.
+ */
+export function checkRoomAccess(
+  room: GameRoom, session: PlayerSession, address: string, request: JoinRoomPayload
+): AccessError | null {
+  if (isBanned(room, session, address)) return "banned";
+
+  if (room.inviteOnly) {
+    if (!request.inviteToken) return "invite_required";
+    if (!room.inviteTokens.has(request.inviteToken)) return "invite_invalid";
+  }
+
+  if (room.passwordHash) {
+    if (!request.password) return "password_required";
+    if (!verifyPassword(request.password, room.passwordHash)) return "wrong_password";
+  }
+
+  if (room.inviteOnly) {
+    room.inviteTokens.delete(request.inviteToken);
+  }
+  return null;
+}
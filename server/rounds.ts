@@ -0,0 +1,142 @@
+import { BestOf, Scoreboard } from "../src/utils/network/protocol";
+import { GameRoom, MatchState, RoomPlayer, Team } from "./types";
+import { spawnPoint } from "./arena";
+
+export const DEFAULT_BEST_OF: BestOf = 3;
+
+// How long a round runs before sudden death
+export const ROUND_DURATION_MS = Number(process.env.ROUND_DURATION_MS) || 90_000;
+
+// Pause between rounds while everyone is put back at their spawn
+export const INTERMISSION_MS = Number(process.env.INTERMISSION_MS) || 5_000;
+
+export const MAX_HEALTH = 100;
+
+export function winsNeeded(bestOf: BestOf): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+export function createScoreboard(room: GameRoom): Scoreboard {
+  const scoreboard: Scoreboard = { players: {}, teams: {} };
+  for (const player of room.players) {
+    scoreboard.players[player.id] = {
+      playerId: player.id,
+      team: player.team,
+      kills: 0,
+      deaths: 0,
+      damageDealt: 0,
+      roundsWon: 0
+    };
+  }
+  if (room.gameMode === "teams") {
+    scoreboard.teams.red = { team: "red", roundsWon: 0, kills: 0 };
+    scoreboard.teams.blue = { team: "blue", roundsWon: 0, kills: 0 };
+  }
+  return scoreboard;
+}
+
+export function createMatchState(room: GameRoom): MatchState {
+  return {
+    roundNumber: 0,
+    phase: "intermission",
+    roundEndsAt: null,
+    scoreboard: createScoreboard(room),
+    timer: null,
+    rematchVotes: new Set()
+  };
+}
+
+// Full health, no swing in progress, standing still
+export function resetPlayer(player: RoomPlayer): void {
+  player.health = MAX_HEALTH;
+  player.velocityY = 0;
+  player.grounded = true;
+  player.isAttacking = false;
+  player.isBlocking = false;
+  player.attackStartedAt = 0;
+  player.hitLandedInAttack = false;
+  player.lastHitAt = 0;
+  player.lastPoseAt = Date.now();
+  player.respawnedAt = Date.now();
+}
+
+// Reset everyone and move them to their spawn points for the room's mode
+export function resetPlayers(room: GameRoom): void {
+  room.players.forEach((player, index) => {
+    const teammates = room.players.filter(p => p.team === player.team);
+    const spawn = spawnPoint(
+      room.gameMode,
+      index,
+      room.players.length,
+      player.team,
+      teammates.indexOf(player),
+      teammates.length
+    );
+    resetPlayer(player);
+    player.position = spawn.position;
+    player.rotation = spawn.rotation;
+  });
+
+  // Poses from before the reset must not drag anyone back out of their spawn
+  room.pendingPoses.clear();
+  room.latestPoses.clear();
+}
+
+// Who a player scores rounds for: their team in team mode, otherwise themselves
+export function sideOf(room: GameRoom, player: RoomPlayer): string {
+  return room.gameMode === "teams" && player.team ? player.team : player.id;
+}
+
+// Sides that still have someone on their feet
+export function sidesStanding(room: GameRoom): Set<string> {
+  return new Set(room.players.filter(p => p.health > 0).map(p => sideOf(room, p)));
+}
+
+// Sides that still have someone in the room at all
+export function sidesPresent(room: GameRoom): Set<string> {
+  return new Set(room.players.map(p => sideOf(room, p)));
+}
+
+export function isTeam(side: string): side is Team {
+  return side === "red" || side === "blue";
+}
+
+// Credit a round to a side; returns how many rounds that side has now won
+export function recordRoundWin(room: GameRoom, side: string): number {
+  const { scoreboard } = room.match;
+  if (isTeam(side)) {
+    const teamScore = scoreboard.teams[side];
+    teamScore.roundsWon++;
+    room.players.filter(p => p.team === side).forEach(p => scoreboard.players[p.id].roundsWon++);
+    return teamScore.roundsWon;
+  }
+  scoreboard.players[side].roundsWon++;
+  return scoreboard.players[side].roundsWon;
+}
+
+export function recordDamage(room: GameRoom, attacker: RoomPlayer, target: RoomPlayer, damage: number): void {
+  const { scoreboard } = room.match;
+  scoreboard.players[attacker.id].damageDealt += damage;
+
+  if (target.health > 0) return;
+  scoreboard.players[target.id].deaths++;
+
+  // Taking out a teammate doesn't count as a kill
+  const teamKill = room.gameMode === "teams" && attacker.team === target.team;
+  if (teamKill) return;
+  scoreboard.players[attacker.id].kills++;
+  if (attacker.team && scoreboard.teams[attacker.team]) {
+    scoreboard.teams[attacker.team].kills++;
+  }
+}
+
+export function isRoundActive(match: MatchState | null): boolean {
+  return match !== null && (match.phase === "round" || match.phase === "sudden_death");
+}
+
+export function clearMatchTimer(match: MatchState | null): void {
+  if (match?.timer) {
+    clearTimeout(match.timer);
+    match.timer = null;
+  }
+}
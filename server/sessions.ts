@@ -0,0 +1,41 @@
+import { v4 as uuidv4 } from "uuid";
+import { PlayerSession } from "./types";
+
+// How long a dropped player's slot is held open for them (ms)
+export const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 30000;
+
+/**
+ * Session tokens handed to clients on connect. A client that drops presents
+ * its token when it reconnects and gets its old player id back.
+ */
+export class SessionStore {
+  private sessions = new Map<string, PlayerSession>();
+
+  create(playerId: string, profileId: string): PlayerSession {
+    const session: PlayerSession = {
+      token: uuidv4(),
+      playerId,
+      profileId,
+      socketId: null,
+      graceTimer: null
+    };
+    this.sessions.set(session.token, session);
+    return session;
+  }
+
+  get(token: unknown): PlayerSession | undefined {
+    return typeof token === "string" ? this.sessions.get(token) : undefined;
+  }
+
+  findByPlayerId(playerId: string): PlayerSession | undefined {
+    for (const session of this.sessions.values()) {
+      if (session.playerId === playerId) return session;
+    }
+    return undefined;
+  }
+
+  delete(session: PlayerSession): void {
+    if (session.graceTimer) clearTimeout(session.graceTimer);
+    this.sessions.delete(session.token);
+  }
+}
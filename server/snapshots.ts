@@ -0,0 +1,64 @@
+import { PlayerUpdatedEvent, WorldSnapshotEvent } from "../src/utils/network/protocol";
+import type { SnapshotBaseline } from "../src/utils/network/SnapshotHistory";
+import { GameRoom, RoomPlayer } from "./types";
+
+// World snapshots per second, e.g. TICK_RATE=20 on a busy box or 60 for LAN play
+export const TICK_RATE = Math.min(Math.max(Number(process.env.TICK_RATE) || 30, 1), 120);
+export const TICK_INTERVAL_MS = 1000 / TICK_RATE;
+
+export function poseOf(player: RoomPlayer, timestamp: number): PlayerUpdatedEvent {
+  return {
+    playerId: player.id,
+    timestamp,
+    position: player.position,
+    rotation: player.rotation,
+    lightsaberPosition: player.lightsaberPosition,
+    lightsaberRotation: player.lightsaberRotation,
+    isAttacking: player.isAttacking,
+    isBlocking: player.isBlocking
+  };
+}
+
+// Nobody is sent back what they sent: players skip their own pose and the
+// host skips the bots it simulates
+function sendsPoseTo(room: GameRoom, playerId: string, recipientId: string): boolean {
+  const player = room.players.find(p => p.id === playerId);
+  if (!player || playerId === recipientId) return false;
+  return !(player.isBot && room.hostId === recipientId);
+}
+
+// The poses one socket in the room should get this tick, or null if there are none
+export function snapshotFor(
+  room: GameRoom,
+  recipientId: string,
+  tick: number,
+  serverTime: number
+): WorldSnapshotEvent | null {
+  const players: PlayerUpdatedEvent[] = [];
+  for (const [playerId, pose] of room.pendingPoses) {
+    if (sendsPoseTo(room, playerId, recipientId)) players.push(pose);
+  }
+  return players.length > 0 ? { tick, serverTime, players } : null;
+}
+
+/**
+ * Like snapshotFor, but with every pose that differs from the baseline the
+ * recipient acknowledged rather than just this tick's; all of them without
+ * a baseline. Null if there is nothing new to send.
+ */
+export function deltaSnapshotFor(
+  room: GameRoom,
+  recipientId: string,
+  tick: number,
+  serverTime: number,
+  baseline: { tick: number; poses: SnapshotBaseline } | null
+): WorldSnapshotEvent | null {
+  const players: PlayerUpdatedEvent[] = [];
+  for (const [playerId, pose] of room.latestPoses) {
+    // Poses are replaced, never mutated, so an unchanged one is the same object
+    if (baseline?.poses.get(playerId) === pose) continue;
+    if (sendsPoseTo(room, playerId, recipientId)) players.push(pose);
+  }
+  if (players.length === 0) return null;
+  return baseline ? { tick, serverTime, baselineTick: baseline.tick, players } : { tick, serverTime, players };
+}
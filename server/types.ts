@@ -0,0 +1,107 @@
+// Shared server-side types for rooms and the players in them
+import type { StrikeTracker } from "./abuse";
+import type { SnapshotHistory } from "../src/utils/network/SnapshotHistory";
+import {
+  BestOf,
+  BotDifficulty,
+  GameMode,
+  GameState,
+  NetworkPlayer,
+  PlayerUpdatedEvent,
+  RoundPhase,
+  Scoreboard,
+  WireEncoding
+} from "../src/utils/network/protocol";
+
+export type { AttackType, GameMode, Quat, Team, Vec3 } from "../src/utils/network/protocol";
+
+// lightsaberPosition/lightsaberRotation are the world-space hilt position and
+// blade orientation (blade points along local +Y)
+export interface RoomPlayer extends NetworkPlayer {
+  joinedAt: number; // host migration favours whoever has been in the room longest
+  // Server bookkeeping for hit validation
+  attackStartedAt: number;
+  hitLandedInAttack: boolean;
+  lastHitAt: number;
+  // Authoritative movement from player_input; see inputs.ts
+  velocityY: number;
+  grounded: boolean;
+  lastInputSequence: number; // -1 until the first input arrives
+  inputTimeBudget: number; // seconds of movement the client may still claim
+  inputBudgetAt: number; // when the budget was last topped up
+  // Sanity checks on client-reported poses; see abuse.ts
+  lastPoseAt: number; // when the last pose was accepted
+  respawnedAt: number; // when the server last moved the player itself
+}
+
+export interface PlayerSession {
+  token: string;
+  playerId: string; // stable across reconnects, unlike the socket id
+  profileId: string; // long-lived client identity that ratings are stored under
+  socketId: string | null; // null while the player is disconnected
+  graceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Per-socket data attached during the handshake
+export interface SocketData {
+  session: PlayerSession;
+  encoding: WireEncoding;
+  strikes: StrikeTracker;
+  snapshots: SnapshotHistory; // binary only: what we sent this socket, as delta baselines
+}
+
+export interface GameRoom {
+  id: string;
+  hostId: string;
+  name: string;
+  isPublic: boolean;
+  maxPlayers: number;
+  gameMode: GameMode;
+  // Access control; see roomAccess.ts
+  passwordHash: string | null;
+  inviteOnly: boolean;
+  inviteTokens: Set<string>; // unused one-time invites
+  // Bans cover the session, the profile and the address, so a reload with a fresh session doesn't lift them
+  bannedPlayerIds: Set<string>;
+  bannedProfileIds: Set<string>;
+  bannedAddresses: Set<string>;
+  players: RoomPlayer[];
+  spectatorIds: Set<string>; // watching only; never in players
+  isRanked: boolean; // created by matchmaking; the result updates ratings
+  bestOf: BestOf;
+  friendlyFire: boolean; // team mode: whether teammates can damage each other
+  fillWithBots: boolean;
+  botDifficulty: BotDifficulty;
+  gameState: GameState;
+  startTime?: number;
+  match: MatchState | null; // set from start_game until the room goes back to waiting
+  pendingPoses: Map<string, PlayerUpdatedEvent>; // changed since the last world snapshot, by player id
+  latestPoses: Map<string, PlayerUpdatedEvent>; // each player's newest pose, for delta snapshots
+}
+
+// Round bookkeeping for a match in progress; see rounds.ts
+export interface MatchState {
+  roundNumber: number;
+  phase: RoundPhase;
+  roundEndsAt: number | null;
+  scoreboard: Scoreboard;
+  timer: ReturnType<typeof setTimeout> | null; // round timeout or intermission countdown
+  rematchVotes: Set<string>;
+}
+
+export interface RatingRecord {
+  profileId: string;
+  rating: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  updatedAt: number;
+}
+
+export interface QueueEntry {
+  playerId: string;
+  profileId: string;
+  rating: number;
+  region: string;
+  queuedAt: number;
+}
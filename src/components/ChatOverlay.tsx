@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessageEvent, Emote, NetworkManager, ServerMessageEvent } from '@/utils/network/NetworkManager';
+import { EMOTES, MAX_CHAT_LENGTH } from '@/utils/network/protocol';
+
+// How many lines stay on screen, and how long they linger while chat is closed
+const MAX_VISIBLE_MESSAGES = 6;
+const MESSAGE_FADE_MS = 8000;
+
+// Quick-chat keys work without opening chat; 1-7 are taken by stances
+const EMOTE_KEYS: Record<string, Emote> = {
+  Digit8: 'salute',
+  Digit9: 'taunt',
+  Digit0: 'gg'
+};
+
+const EMOTE_TEXT: Record<Emote, string> = {
+  salute: 'salutes',
+  taunt: 'taunts you',
+  gg: 'says GG'
+};
+
+interface ChatLine extends ChatMessageEvent {
+  key: number; // sentAt alone can repeat within a millisecond
+  receivedAt: number;
+  fromServer?: boolean; // an operator announcement rather than a player
+}
+
+// Only shown in a multiplayer room; Enter or T opens the input
+const ChatOverlay: React.FC = () => {
+  const [messages, setMessages] = useState<ChatLine[]>([]);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>('');
+  const [now, setNow] = useState<number>(Date.now());
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isOpenRef = useRef<boolean>(false);
+  const nextKeyRef = useRef<number>(0);
+  // Read on every render (the fade timer below guarantees one a second), so
+  // joining a room after mount still subscribes us
+  const roomId = NetworkManager.hasInstance() ? NetworkManager.getInstance().getRoomId() : null;
+
+  useEffect(() => {
+    isOpenRef.current = isOpen;
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    const networkManager = NetworkManager.getInstance();
+
+    const addLine = (line: ChatLine) => setMessages((previous) => [...previous, line].slice(-MAX_VISIBLE_MESSAGES));
+
+    const unsubscribe = networkManager.onChatMessage((message) => {
+      addLine({ ...message, key: nextKeyRef.current++, receivedAt: Date.now() });
+    });
+
+    const unsubscribeServer = networkManager.onServerMessage(({ text, sentAt }: ServerMessageEvent) => {
+      addLine({
+        roomId: networkManager.getRoomId() ?? '',
+        playerId: '',
+        text,
+        emote: null,
+        isSpectator: false,
+        sentAt,
+        key: nextKeyRef.current++,
+        receivedAt: Date.now(),
+        fromServer: true
+      });
+    });
+
+    // Focusing the input leaves pointer lock alone, so the view stays captured
+    // and the mouse keeps aiming while the player types
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isOpenRef.current || event.repeat || !networkManager.getRoomId()) return;
+
+      if (event.code === 'Enter' || event.code === 'KeyT') {
+        event.preventDefault(); // don't type the T into the input we are about to focus
+        setIsOpen(true);
+        return;
+      }
+
+      const emote = EMOTE_KEYS[event.code];
+      if (emote) networkManager.sendEmote(emote);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      unsubscribe();
+      unsubscribeServer();
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [roomId]);
+
+  // Re-render now and then so old lines fade out
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!roomId) return null;
+  const networkManager = NetworkManager.getInstance();
+
+  const close = () => {
+    setDraft('');
+    setIsOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const submit = () => {
+    const text = draft.trim();
+    // "/gg" and friends send the emote instead of the text
+    const emote = EMOTES.find((name) => text.toLowerCase() === `/${name}`);
+    if (emote) {
+      networkManager.sendEmote(emote);
+    } else if (text.length > 0) {
+      networkManager.sendChat(text);
+    }
+    close();
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep typing away from the player's movement and stance keys. Only keydown
+    // is stopped, so keys held when chat opened are still released normally.
+    event.stopPropagation();
+    if (event.key === 'Enter') submit();
+    if (event.key === 'Escape') close();
+  };
+
+  const nameOf = (message: ChatLine) => {
+    if (message.fromServer) return 'Server';
+    if (message.playerId === networkManager.getPlayerId()) return 'You';
+    const name = `Player ${message.playerId.substring(0, 5)}`;
+    return message.isSpectator ? `${name} (spectating)` : name;
+  };
+
+  const visible = isOpen ? messages : messages.filter((message) => now - message.receivedAt < MESSAGE_FADE_MS);
+
+  return (
+    <div className="fixed bottom-24 left-4 w-96 z-40 font-mono text-sm">
+      <div className="space-y-1 mb-2 pointer-events-none">
+        {visible.map((message) => (
+          <div key={message.key} className="bg-black/60 text-white px-2 py-1 rounded">
+            <span className={message.fromServer ? 'text-red-400 font-bold' : message.isSpectator ? 'text-gray-400' : 'text-blue-400'}>
+              {nameOf(message)}
+            </span>
+            {message.emote ? (
+              <span className="text-yellow-300 italic"> {EMOTE_TEXT[message.emote]}</span>
+            ) : (
+              <span>: {message.text}</span>
+            )}
+          </div>
+        ))}
+      </div>
+      {isOpen ? (
+        <input
+          ref={inputRef}
+          value={draft}
+          maxLength={MAX_CHAT_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleInputKeyDown}
+          onBlur={close}
+          placeholder="Say something... (/salute, /taunt, /gg)"
+          className="w-full bg-black/80 text-white px-2 py-1 rounded border border-gray-600 outline-none"
+        />
+      ) : (
+        <div className="text-gray-400 text-xs pointer-events-none">T: chat · 8/9/0: salute, taunt, GG</div>
+      )}
+    </div>
+  );
+};
+
+export default ChatOverlay;
@@ -5,6 +5,11 @@ import { GameScene } from '@/utils/three/scene';
 import gameAudio from '@/utils/three/audio';
 import { toast } from 'sonner';
 import StanceSelector from './StanceSelector';
+import ChatOverlay from './ChatOverlay';
+import MatchResultHud from './MatchResultHud';
+import ScoreboardOverlay from './ScoreboardOverlay';
+import MultiplayerLobby from './MultiplayerLobby';
+import { NetworkManager } from '@/utils/network/NetworkManager';
 
 interface GameState {
   isLoading: boolean;
@@ -183,6 +188,48 @@ const Game: React.FC = () => {
     startGameWithScene(gameSceneRef.current);
   }, [initializeGame, startGameWithScene]);
   
+  // Multiplayer lobby; open from the start screen
+  const [showLobby, setShowLobby] = useState(false);
+  
+  // The server accepted us as a spectator: enter the arena watching, not playing
+  const handleSpectate = useCallback(() => {
+    setShowLobby(false);
+    if (!gameSceneRef.current) {
+      toast.error("Game scene not fully initialized. Try refreshing the page.");
+      return;
+    }
+    startGameWithScene(gameSceneRef.current);
+    gameSceneRef.current.startSpectating();
+  }, [startGameWithScene]);
+  
+  const handleStartOnlineGame = useCallback(() => {
+    NetworkManager.getInstance().startGame();
+  }, []);
+  
+  // The room's match began (the host started it, or matchmaking did): play it online
+  const handleOnlineGameStarted = useCallback(() => {
+    if (NetworkManager.getInstance().isSpectating()) return;
+    setShowLobby(false);
+    if (!gameSceneRef.current) {
+      toast.error("Game scene not fully initialized. Try refreshing the page.");
+      return;
+    }
+    startGameWithScene(gameSceneRef.current);
+    gameSceneRef.current.startOnlinePlay();
+  }, [startGameWithScene]);
+  
+  useEffect(() => {
+    if (!showLobby) return;
+    return NetworkManager.getInstance().onGameStarted(handleOnlineGameStarted);
+  }, [showLobby, handleOnlineGameStarted]);
+  
+  // Opened from a ?room= join link: straight to that room's lobby
+  useEffect(() => {
+    if (!new URLSearchParams(window.location.search).has('room')) return;
+    NetworkManager.getInstance().checkAndJoinFromUrl();
+    setShowLobby(true);
+  }, []);
+  
   const handleRetryLoading = useCallback(() => {
     console.log("Manually retrying game initialization");
     initializationAttempts.current += 1;
@@ -399,17 +446,34 @@ const Game: React.FC = () => {
           <div className="text-center p-8 bg-gray-900/80 rounded-lg">
             <h1 className="text-4xl font-bold text-blue-500 mb-6">Plasmablade Duel</h1>
             <p className="text-gray-300 mb-8">Prepare for battle!</p>
-            <button 
-              onClick={handleGameStart} 
-              className="px-8 py-4 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-              disabled={!gameState.sceneReady}
-            >
-              {gameState.sceneReady ? "Start Game" : "Loading Scene..."}
-            </button>
+            <div className="flex gap-4 justify-center">
+              <button 
+                onClick={handleGameStart} 
+                className="px-8 py-4 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                disabled={!gameState.sceneReady}
+              >
+                {gameState.sceneReady ? "Start Game" : "Loading Scene..."}
+              </button>
+              <button 
+                onClick={() => setShowLobby(true)} 
+                className="px-8 py-4 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+                disabled={!gameState.sceneReady}
+              >
+                Multiplayer
+              </button>
+            </div>
           </div>
         </motion.div>
       )}
       
+      {showLobby && !gameState.isStarted && (
+        <MultiplayerLobby 
+          onStartGame={handleStartOnlineGame}
+          onCancelMultiplayer={() => setShowLobby(false)}
+          onSpectate={handleSpectate}
+        />
+      )}
+      
       {/* Debug toggle button */}
       <button 
         onClick={toggleDebugMode}
@@ -475,6 +539,11 @@ const Game: React.FC = () => {
           onSelectStance={handleSelectStance}
         />
       )}
+      
+      {/* Multiplayer chat, match results and scoreboard; all render nothing outside a room */}
+      {gameState.isStarted && <ChatOverlay />}
+      {gameState.isStarted && <MatchResultHud />}
+      {gameState.isStarted && <ScoreboardOverlay />}
     </div>
   );
 };
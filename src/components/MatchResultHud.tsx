@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { MatchEndedEvent, NetworkManager, RematchUpdatedEvent, RoundEndedEvent, Team } from '@/utils/network/NetworkManager';
+
+const TEAM_LABELS: Record<Team, string> = {
+  red: 'Red team',
+  blue: 'Blue team'
+};
+
+type Banner =
+  | { kind: 'round'; result: RoundEndedEvent }
+  | { kind: 'suddenDeath'; roundNumber: number };
+
+// Who took a round or match, from our point of view
+const describeWinner = (winnerId: string | null, winningTeam: Team | null, playerId: string): string => {
+  if (winningTeam) return `${TEAM_LABELS[winningTeam]} wins`;
+  if (!winnerId) return 'Nobody left standing';
+  if (winnerId === playerId) return 'You win';
+  return `Player ${winnerId.substring(0, 5)} wins`;
+};
+
+// Round results, sudden death and the end-of-match rematch vote; only shown in a multiplayer room
+const MatchResultHud: React.FC = () => {
+  const [banner, setBanner] = useState<Banner | null>(null);
+  const [matchResult, setMatchResult] = useState<MatchEndedEvent | null>(null);
+  const [rematch, setRematch] = useState<RematchUpdatedEvent | null>(null);
+  const [isReset, setIsReset] = useState<boolean>(false);
+  // Online play starts from the lobby, so the room is normally joined by the time we mount
+  const roomId = NetworkManager.hasInstance() ? NetworkManager.getInstance().getRoomId() : null;
+
+  useEffect(() => {
+    if (!roomId) return;
+    const networkManager = NetworkManager.getInstance();
+
+    const unsubscribers = [
+      networkManager.onRoundStarted(() => {
+        setBanner(null);
+        setMatchResult(null);
+        setRematch(null);
+        setIsReset(false);
+      }),
+      networkManager.onSuddenDeath((roundNumber) => setBanner({ kind: 'suddenDeath', roundNumber })),
+      networkManager.onRoundEnded((result) => {
+        // The match result panel covers the deciding round
+        if (result.nextRoundAt !== null) setBanner({ kind: 'round', result });
+      }),
+      networkManager.onMatchEnded((result) => {
+        setBanner(null);
+        setMatchResult(result);
+        // Free the cursor so the rematch button can be clicked
+        document.exitPointerLock();
+      }),
+      networkManager.onRematchUpdated(setRematch),
+      networkManager.onMatchReset(() => setIsReset(true))
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [roomId]);
+
+  if (!roomId) return null;
+  const networkManager = NetworkManager.getInstance();
+  const playerId = networkManager.getPlayerId();
+
+  if (matchResult) {
+    const hasVoted = rematch?.votes.includes(playerId) ?? false;
+
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+        <div className="bg-gray-900 text-white p-6 rounded-lg w-80 text-center font-mono">
+          <h2 className="text-2xl font-bold mb-1">Match over</h2>
+          <p className="text-yellow-300 mb-1">{describeWinner(matchResult.winnerId, matchResult.winningTeam, playerId)}</p>
+          {matchResult.reason === 'forfeit' && <p className="text-gray-400 text-sm">by forfeit</p>}
+          {matchResult.reason === 'aborted' && <p className="text-gray-400 text-sm">ended by the server</p>}
+          <p className="text-gray-500 text-xs mt-2">Hold Tab for the scoreboard</p>
+
+          {isReset ? (
+            networkManager.isGameHost() ? (
+              <button
+                onClick={() => networkManager.startGame()}
+                className="mt-4 w-full bg-green-700 hover:bg-green-800 py-2 rounded"
+              >
+                Start rematch
+              </button>
+            ) : (
+              <p className="mt-4 text-gray-300">Rematch agreed, waiting for the host to start</p>
+            )
+          ) : !networkManager.isSpectating() && (
+            <>
+              <button
+                onClick={() => networkManager.voteRematch()}
+                disabled={hasVoted}
+                className="mt-4 w-full bg-blue-700 hover:bg-blue-800 disabled:bg-gray-700 py-2 rounded"
+              >
+                {hasVoted ? 'Waiting for the others' : 'Rematch'}
+              </button>
+              {rematch && (
+                <p className="mt-2 text-sm text-gray-400">{rematch.votes.length}/{rematch.required} want a rematch</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (!banner) return null;
+
+  return (
+    <div className="fixed top-24 left-1/2 -translate-x-1/2 z-40 pointer-events-none font-mono text-center">
+      {banner.kind === 'suddenDeath' ? (
+        <div className="bg-red-900/80 text-white px-6 py-3 rounded">
+          <div className="text-2xl font-bold">Sudden death</div>
+          <div className="text-sm">Round {banner.roundNumber}: next hit wins</div>
+        </div>
+      ) : (
+        <div className="bg-black/70 text-white px-6 py-3 rounded">
+          <div className="text-sm text-gray-400">Round {banner.result.roundNumber}</div>
+          <div className="text-2xl font-bold text-yellow-300">
+            {describeWinner(banner.result.winnerId, banner.result.winningTeam, playerId)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchResultHud;
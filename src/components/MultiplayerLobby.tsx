@@ -1,22 +1,90 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { NetworkManager } from '@/utils/network/NetworkManager';
+import { NetworkManager, CreateRoomOptions, BotDifficulty } from '@/utils/network/NetworkManager';
+import RoomBrowser from './RoomBrowser';
+import RankedQueue from './RankedQueue';
+import TeamPicker from './TeamPicker';
 
 interface Props {
   onStartGame: () => void;
   onCancelMultiplayer: () => void;
+  onSpectate?: () => void; // the server accepted us as a spectator
 }
 
-const MultiplayerLobby: React.FC<Props> = ({ onStartGame, onCancelMultiplayer }) => {
+const MultiplayerLobby: React.FC<Props> = ({ onStartGame, onCancelMultiplayer, onSpectate }) => {
   const [joinUrl, setJoinUrl] = useState<string>('');
   const [isHost, setIsHost] = useState<boolean>(false);
   const [players, setPlayers] = useState<string[]>([]);
   const [canStart, setCanStart] = useState<boolean>(false);
   const [copied, setCopied] = useState<boolean>(false);
+  const [hostNotice, setHostNotice] = useState<string>('');
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [inviteOnly, setInviteOnly] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  const [passwordRoomId, setPasswordRoomId] = useState<string | null>(null); // room asking us for a password
+  const [password, setPassword] = useState<string>('');
+  const lastJoinAttempt = useRef<string | null>(null);
+  const lastJoinAsSpectator = useRef<boolean>(false);
+  const [spectatorCount, setSpectatorCount] = useState<number>(0);
+  const [botSettings, setBotSettings] = useState(NetworkManager.getInstance().getBotSettings());
+  const startable = canStart || botSettings.fillWithBots; // bots take any empty seats
+  const onSpectateRef = useRef(onSpectate); // latest prop, read from the mount-time listener
+  onSpectateRef.current = onSpectate;
 
   useEffect(() => {
     const networkManager = NetworkManager.getInstance();
     setIsHost(networkManager.isGameHost());
+    setRoomId(networkManager.getRoomId());
+    lastJoinAttempt.current = networkManager.getRoomId(); // joined from a ?room= link
+    
+    networkManager.onRoomCreated((data) => {
+      setIsHost(true);
+      setRoomId(data.roomId);
+      setJoinUrl(data.joinUrl);
+    });
+    
+    networkManager.onBotSettings(setBotSettings);
+    
+    setSpectatorCount(networkManager.getSpectatorCount());
+    networkManager.onSpectatorsUpdated(setSpectatorCount);
+    
+    networkManager.onSpectateStarted((data) => {
+      setSpectatorCount(data.spectatorCount);
+      if (onSpectateRef.current) onSpectateRef.current();
+    });
+    
+    networkManager.onError((message, code) => {
+      setErrorMessage(message);
+      
+      switch (code) {
+        case 'password_required':
+        case 'wrong_password':
+          setPasswordRoomId(lastJoinAttempt.current);
+          setRoomId(null);
+          break;
+        case 'room_not_found':
+        case 'game_in_progress':
+        case 'room_full':
+        case 'invite_required':
+        case 'invite_invalid':
+        case 'banned':
+        case 'kicked':
+        case 'room_closed':
+          // Back to the room browser
+          setRoomId(null);
+          setIsHost(false);
+          setPlayers([]);
+          setPasswordRoomId(null);
+          break;
+      }
+    });
+    
+    // Matchmaking put us in a ranked room; the server starts it straight away
+    networkManager.onMatchFound((data) => {
+      setErrorMessage('');
+      setRoomId(data.roomId);
+      setHostNotice(`Matched against Player ${data.opponentId.substring(0, 5)}... (rating ${data.opponentRating})`);
+    });
     
     // Set up event listeners
     const handleJoinLink = (event: CustomEvent) => {
@@ -31,6 +99,22 @@ const MultiplayerLobby: React.FC<Props> = ({ onStartGame, onCancelMultiplayer })
       setPlayers((prev) => [...new Set([...prev, event.detail.playerId])]);
     };
     
+    // The old host left; the server may have handed the room to us
+    const unsubscribeHostChanged = networkManager.onHostChanged(({ hostId }) => {
+      const nowHost = hostId === networkManager.getPlayerId();
+      const remaining = Array.from(networkManager.getRemotePlayers().keys());
+      setIsHost(nowHost);
+      setPlayers(remaining);
+      setCanStart(nowHost && remaining.length > 0);
+      setHostNotice(nowHost ? 'The host left - you are now the host' : `Player ${hostId.substring(0, 5)}... is now the host`);
+      
+      // We never received the join link as a guest, so build it ourselves
+      const currentRoomId = networkManager.getRoomId();
+      if (nowHost && currentRoomId) {
+        setJoinUrl((prev) => prev || `${window.location.origin}?room=${currentRoomId}`);
+      }
+    });
+    
     // Add event listeners
     window.addEventListener('showJoinLink', handleJoinLink as EventListener);
     window.addEventListener('enableStartButton', handleEnableStart as EventListener);
@@ -38,12 +122,57 @@ const MultiplayerLobby: React.FC<Props> = ({ onStartGame, onCancelMultiplayer })
     
     return () => {
       // Clean up event listeners
+      unsubscribeHostChanged();
       window.removeEventListener('showJoinLink', handleJoinLink as EventListener);
       window.removeEventListener('enableStartButton', handleEnableStart as EventListener);
       window.removeEventListener('playerJoined', handlePlayerJoined as EventListener);
     };
   }, []);
 
+  const joinRoom = (id: string, roomPassword?: string) => {
+    setErrorMessage('');
+    lastJoinAttempt.current = id;
+    lastJoinAsSpectator.current = false;
+    NetworkManager.getInstance().joinRoom(id, { password: roomPassword });
+    setRoomId(id);
+  };
+
+  const spectateRoom = (id: string, roomPassword?: string) => {
+    setErrorMessage('');
+    lastJoinAttempt.current = id;
+    lastJoinAsSpectator.current = true;
+    NetworkManager.getInstance().spectateRoom(id, { password: roomPassword });
+    setRoomId(id);
+  };
+
+  const submitPassword = () => {
+    if (!passwordRoomId) return;
+    if (lastJoinAsSpectator.current) {
+      spectateRoom(passwordRoomId, password);
+    } else {
+      joinRoom(passwordRoomId, password);
+    }
+    setPasswordRoomId(null);
+    setPassword('');
+  };
+
+  const createRoom = (options: CreateRoomOptions) => {
+    setErrorMessage('');
+    setInviteOnly(options.inviteOnly ?? false);
+    NetworkManager.getInstance().createRoom(options);
+  };
+
+  const newInviteLink = () => {
+    NetworkManager.getInstance().createInvite()
+      .then((invite) => setJoinUrl(invite.joinUrl))
+      .catch(() => setErrorMessage('Could not create an invite link'));
+  };
+
+  const kickPlayer = (playerId: string, ban: boolean) => {
+    NetworkManager.getInstance().kickPlayer(playerId, ban);
+    setPlayers((prev) => prev.filter(id => id !== playerId));
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(joinUrl)
       .then(() => {
@@ -63,9 +192,17 @@ const MultiplayerLobby: React.FC<Props> = ({ onStartGame, onCancelMultiplayer })
     >
       <div className="bg-gray-900 p-8 rounded-lg max-w-md w-full">
         <h2 className="text-3xl font-bold text-blue-500 mb-6 text-center">
-          {isHost ? 'Multiplayer Lobby' : 'Joining Game'}
+          {isHost ? 'Multiplayer Lobby' : roomId ? 'Joining Game' : 'Find a Game'}
         </h2>
         
+        {hostNotice && (
+          <p className="text-yellow-400 text-sm mb-4 text-center">{hostNotice}</p>
+        )}
+        
+        {errorMessage && (
+          <p className="text-red-400 text-sm mb-4 text-center">{errorMessage}</p>
+        )}
+        
         {isHost ? (
           <>
             <div className="mb-6">
@@ -84,6 +221,11 @@ const MultiplayerLobby: React.FC<Props> = ({ onStartGame, onCancelMultiplayer })
                   {copied ? 'Copied!' : 'Copy'}
                 </button>
               </div>
+              {inviteOnly && (
+                <button onClick={newInviteLink} className="text-blue-400 hover:text-blue-300 text-sm mt-2">
+                  Invite links work once - get a new one
+                </button>
+              )}
             </div>
             
             <div className="mb-6">
@@ -91,13 +233,44 @@ const MultiplayerLobby: React.FC<Props> = ({ onStartGame, onCancelMultiplayer })
               <div className="bg-gray-800 p-3 rounded">
                 <div className="text-green-400 mb-1">You (Host)</div>
                 {players.map(player => (
-                  <div key={player} className="text-blue-400">
-                    Player {player.substring(0, 5)}...
+                  <div key={player} className="flex items-center justify-between text-blue-400">
+                    <span>Player {player.substring(0, 5)}...</span>
+                    <span className="flex gap-2 text-xs">
+                      <button onClick={() => kickPlayer(player, false)} className="text-yellow-400 hover:text-yellow-300">
+                        Kick
+                      </button>
+                      <button onClick={() => kickPlayer(player, true)} className="text-red-400 hover:text-red-300">
+                        Ban
+                      </button>
+                    </span>
                   </div>
                 ))}
               </div>
+              <p className="text-gray-400 text-sm mt-2">Spectators watching: {spectatorCount}</p>
+            </div>
+            
+            <div className="flex items-center justify-between mb-6">
+              <label className="flex items-center gap-2 text-gray-300 text-sm">
+                <input
+                  type="checkbox"
+                  checked={botSettings.fillWithBots}
+                  onChange={(e) => NetworkManager.getInstance().updateBotSettings({ fillWithBots: e.target.checked })}
+                />
+                Fill empty slots with bots
+              </label>
+              <select
+                value={botSettings.difficulty}
+                onChange={(e) => NetworkManager.getInstance().updateBotSettings({ difficulty: e.target.value as BotDifficulty })}
+                className="bg-gray-800 text-white text-sm py-1 px-2 rounded outline-none"
+              >
+                <option value="easy">Easy</option>
+                <option value="normal">Normal</option>
+                <option value="hard">Hard</option>
+              </select>
             </div>
             
+            <TeamPicker />
+            
             <div className="flex gap-4">
               <button
                 onClick={onCancelMultiplayer}
@@ -108,27 +281,72 @@ const MultiplayerLobby: React.FC<Props> = ({ onStartGame, onCancelMultiplayer })
               
               <button
                 onClick={onStartGame}
-                disabled={!canStart}
+                disabled={!startable}
                 className={`flex-1 py-3 px-6 rounded text-white ${
-                  canStart 
+                  startable 
                     ? 'bg-green-600 hover:bg-green-700' 
                     : 'bg-gray-600 cursor-not-allowed'
                 }`}
               >
-                {canStart ? 'Start Game' : 'Waiting...'}
+                {startable ? 'Start Game' : 'Waiting...'}
               </button>
             </div>
             
-            {!canStart && (
+            {!startable && (
               <p className="text-yellow-400 text-sm mt-3 text-center">
                 Waiting for players to join...
               </p>
             )}
           </>
+        ) : passwordRoomId ? (
+          <>
+            <div className="mb-6">
+              <p className="text-white mb-2">This room needs a password:</p>
+              <div className="flex items-center">
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && submitPassword()}
+                  autoFocus
+                  className="bg-gray-800 text-white py-2 px-3 rounded-l flex-1 outline-none"
+                />
+                <button
+                  onClick={submitPassword}
+                  className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-r"
+                >
+                  Join
+                </button>
+              </div>
+            </div>
+            
+            <button
+              onClick={() => setPasswordRoomId(null)}
+              className="w-full bg-red-600 hover:bg-red-700 text-white py-3 px-6 rounded"
+            >
+              Back
+            </button>
+          </>
+        ) : !roomId ? (
+          <>
+            <RankedQueue />
+            <RoomBrowser onJoinRoom={(id) => joinRoom(id)} onSpectateRoom={(id) => spectateRoom(id)} onCreateRoom={createRoom} />
+            
+            <button
+              onClick={onCancelMultiplayer}
+              className="w-full bg-red-600 hover:bg-red-700 text-white py-3 px-6 rounded"
+            >
+              Cancel
+            </button>
+          </>
         ) : (
           <>
             <div className="mb-6 text-center">
+              <TeamPicker />
               <p className="text-white mb-2">Connecting to game...</p>
+              {spectatorCount > 0 && (
+                <p className="text-gray-400 text-sm mb-2">Spectators watching: {spectatorCount}</p>
+              )}
               <div className="bg-gray-800 p-3 rounded">
                 <div className="animate-pulse w-16 h-16 mx-auto">
                   <div className="w-full h-full border-4 border-t-blue-500 rounded-full animate-spin"></div>
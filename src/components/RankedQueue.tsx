@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { NetworkManager, Region } from '@/utils/network/NetworkManager';
+
+const REGION_LABELS: Record<Region, string> = {
+  na: 'North America',
+  sa: 'South America',
+  eu: 'Europe',
+  asia: 'Asia',
+  oce: 'Oceania'
+};
+
+// Best guess from the browser's time zone; the player can change it
+function guessRegion(): Region {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone ?? '';
+  if (zone.startsWith('Europe') || zone.startsWith('Africa')) return 'eu';
+  if (zone.startsWith('Asia')) return 'asia';
+  if (zone.startsWith('Australia') || zone.startsWith('Pacific')) return 'oce';
+  if (/^America\/(Argentina|Sao_Paulo|Santiago|Bogota|Lima|Caracas|Montevideo)/.test(zone)) return 'sa';
+  return 'na';
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+const RankedQueue: React.FC = () => {
+  const networkManager = NetworkManager.getInstance();
+  const [rating, setRating] = useState<number | null>(networkManager.getProfile()?.rating ?? null);
+  const [region, setRegion] = useState<Region>(guessRegion);
+  const [queuedAt, setQueuedAt] = useState<number | null>(networkManager.getQueuedAt());
+  const [elapsed, setElapsed] = useState<number>(0);
+
+  useEffect(() => {
+    networkManager.onProfile((profile) => setRating(profile.rating));
+    networkManager.onQueueJoined((data) => {
+      setRating(data.rating);
+      setQueuedAt(data.queuedAt);
+    });
+    networkManager.onQueueLeft(() => setQueuedAt(null));
+  }, [networkManager]);
+
+  // Tick the search timer while queued
+  useEffect(() => {
+    if (queuedAt === null) return;
+    const update = () => setElapsed(networkManager.getServerTime() - queuedAt);
+    update();
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [networkManager, queuedAt]);
+
+  const searching = queuedAt !== null;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-white">Ranked duel</p>
+        <span className="text-gray-400 text-xs">Rating: {rating ?? '...'}</span>
+      </div>
+      <div className="flex gap-2">
+        <select
+          value={region}
+          onChange={(e) => setRegion(e.target.value as Region)}
+          disabled={searching}
+          className="bg-gray-800 text-white py-2 px-2 rounded outline-none"
+        >
+          {(Object.keys(REGION_LABELS) as Region[]).map(key => (
+            <option key={key} value={key}>{REGION_LABELS[key]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => (searching ? networkManager.leaveQueue() : networkManager.joinQueue(region))}
+          className={`flex-1 py-2 px-4 rounded text-white ${
+            searching ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-purple-600 hover:bg-purple-700'
+          }`}
+        >
+          {searching ? `Cancel search (${formatElapsed(elapsed)})` : 'Find ranked match'}
+        </button>
+      </div>
+      {searching && (
+        <p className="text-gray-400 text-xs mt-2">
+          Searching for an opponent near your rating - the range widens the longer you wait.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RankedQueue;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { NetworkManager, RoomSummary, CreateRoomOptions, BestOf, BotDifficulty, GameMode } from '@/utils/network/NetworkManager';
+
+interface Props {
+  onJoinRoom: (roomId: string) => void;
+  onSpectateRoom: (roomId: string) => void;
+  onCreateRoom: (options: CreateRoomOptions) => void;
+}
+
+const REFRESH_INTERVAL_MS = 3000;
+
+const MODE_LABELS: Record<GameMode, string> = {
+  duel: 'Duel',
+  ffa: 'Free-for-all',
+  teams: '2v2 Teams'
+};
+
+// Player caps the host can pick from in each mode
+const MODE_PLAYER_COUNTS: Record<GameMode, number[]> = {
+  duel: [2],
+  ffa: [3, 4, 6, 8],
+  teams: [4]
+};
+
+const RoomBrowser: React.FC<Props> = ({ onJoinRoom, onSpectateRoom, onCreateRoom }) => {
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [ownPing, setOwnPing] = useState<number>(0);
+  const [roomName, setRoomName] = useState<string>('');
+  const [gameMode, setGameMode] = useState<GameMode>('duel');
+  const [maxPlayers, setMaxPlayers] = useState<number>(2);
+  const [friendlyFire, setFriendlyFire] = useState<boolean>(false);
+  const [fillWithBots, setFillWithBots] = useState<boolean>(false);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('normal');
+  const [isPublic, setIsPublic] = useState<boolean>(true);
+  const [password, setPassword] = useState<string>('');
+  const [inviteOnly, setInviteOnly] = useState<boolean>(false);
+  const [bestOf, setBestOf] = useState<BestOf>(3);
+
+  const refresh = useCallback(() => {
+    NetworkManager.getInstance().listRooms()
+      .then((list) => {
+        setRooms(list);
+        setError('');
+      })
+      .catch(() => setError('Could not reach the server'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const networkManager = NetworkManager.getInstance();
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    const unsubscribe = networkManager.onNetworkStats((stats) => setOwnPing(Math.round(stats.rtt)));
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-white">Public rooms</p>
+        <div className="flex items-center gap-3">
+          <span className="text-gray-400 text-xs">Your ping: {ownPing}ms</span>
+          <button onClick={refresh} className="text-blue-400 hover:text-blue-300 text-sm">
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 rounded mb-6 max-h-56 overflow-y-auto">
+        {loading && <p className="text-gray-400 p-3 text-sm">Loading rooms...</p>}
+        {error && <p className="text-red-400 p-3 text-sm">{error}</p>}
+        {!loading && !error && rooms.length === 0 && (
+          <p className="text-gray-400 p-3 text-sm">No public rooms yet - host one below.</p>
+        )}
+        {rooms.map(room => {
+          const joinable = room.gameState === 'waiting' && room.playerCount < room.maxPlayers;
+          return (
+            <div key={room.id} className="flex items-center justify-between p-3 border-b border-gray-700 last:border-b-0">
+              <div>
+                <div className="text-white">
+                  {room.name}
+                  {room.hasPassword && <span className="text-yellow-400 text-xs ml-2">password</span>}
+                </div>
+                <div className="text-gray-400 text-xs">
+                  {MODE_LABELS[room.gameMode]} · Bo{room.bestOf} · {room.playerCount}/{room.maxPlayers} players{room.botCount > 0 && ` (+${room.botCount} bots)`} · {room.spectatorCount} watching · {room.ping}ms
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className={`text-xs ${room.gameState === 'waiting' ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {room.gameState}
+                </span>
+                <button
+                  onClick={() => onJoinRoom(room.id)}
+                  disabled={!joinable}
+                  className={`py-1 px-3 rounded text-white text-sm ${
+                    joinable ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-600 cursor-not-allowed'
+                  }`}
+                >
+                  Join
+                </button>
+                <button
+                  onClick={() => onSpectateRoom(room.id)}
+                  className="py-1 px-3 rounded text-white text-sm bg-gray-700 hover:bg-gray-600"
+                >
+                  Watch
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-white mb-2">Host a room</p>
+      <input
+        type="text"
+        value={roomName}
+        onChange={(e) => setRoomName(e.target.value)}
+        placeholder="Room name"
+        maxLength={32}
+        className="bg-gray-800 text-white py-2 px-3 rounded w-full outline-none mb-2"
+      />
+      <div className="flex gap-2 mb-2">
+        <select
+          value={gameMode}
+          onChange={(e) => {
+            const mode = e.target.value as GameMode;
+            setGameMode(mode);
+            setMaxPlayers(MODE_PLAYER_COUNTS[mode][MODE_PLAYER_COUNTS[mode].length - 1]);
+          }}
+          className="bg-gray-800 text-white py-2 px-2 rounded outline-none flex-1"
+        >
+          {(Object.keys(MODE_LABELS) as GameMode[]).map(mode => (
+            <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <select
+          value={maxPlayers}
+          onChange={(e) => setMaxPlayers(Number(e.target.value))}
+          disabled={MODE_PLAYER_COUNTS[gameMode].length === 1}
+          className="bg-gray-800 text-white py-2 px-2 rounded outline-none"
+        >
+          {MODE_PLAYER_COUNTS[gameMode].map(count => (
+            <option key={count} value={count}>{count} players</option>
+          ))}
+        </select>
+        <select
+          value={bestOf}
+          onChange={(e) => setBestOf(Number(e.target.value) as BestOf)}
+          className="bg-gray-800 text-white py-2 px-2 rounded outline-none"
+        >
+          {([1, 3, 5] as BestOf[]).map(rounds => (
+            <option key={rounds} value={rounds}>Best of {rounds}</option>
+          ))}
+        </select>
+      </div>
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password (optional)"
+        maxLength={64}
+        className="bg-gray-800 text-white py-2 px-3 rounded w-full outline-none mb-2"
+      />
+      {gameMode === 'teams' && (
+        <label className="flex items-center gap-2 text-gray-300 text-sm mb-1">
+          <input type="checkbox" checked={friendlyFire} onChange={(e) => setFriendlyFire(e.target.checked)} />
+          Friendly fire
+        </label>
+      )}
+      <div className="flex items-center justify-between mb-1">
+        <label className="flex items-center gap-2 text-gray-300 text-sm">
+          <input type="checkbox" checked={fillWithBots} onChange={(e) => setFillWithBots(e.target.checked)} />
+          Fill empty slots with bots
+        </label>
+        {fillWithBots && (
+          <select
+            value={botDifficulty}
+            onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+            className="bg-gray-800 text-white text-sm py-1 px-2 rounded outline-none"
+          >
+            <option value="easy">Easy</option>
+            <option value="normal">Normal</option>
+            <option value="hard">Hard</option>
+          </select>
+        )}
+      </div>
+      <label className="flex items-center gap-2 text-gray-300 text-sm mb-1">
+        <input type="checkbox" checked={inviteOnly} onChange={(e) => setInviteOnly(e.target.checked)} />
+        Invite only (one-time links)
+      </label>
+      <label className={`flex items-center gap-2 text-sm mb-4 ${inviteOnly ? 'text-gray-500' : 'text-gray-300'}`}>
+        <input
+          type="checkbox"
+          checked={isPublic && !inviteOnly}
+          disabled={inviteOnly}
+          onChange={(e) => setIsPublic(e.target.checked)}
+        />
+        List in the room browser
+      </label>
+      <button
+        onClick={() => onCreateRoom({
+          name: roomName.trim() || undefined,
+          maxPlayers,
+          isPublic: isPublic && !inviteOnly,
+          gameMode,
+          bestOf,
+          friendlyFire: gameMode === 'teams' ? friendlyFire : undefined,
+          fillWithBots,
+          botDifficulty,
+          password: password || undefined,
+          inviteOnly
+        })}
+        className="w-full bg-green-600 hover:bg-green-700 text-white py-2 px-6 rounded mb-4"
+      >
+        Create Room
+      </button>
+    </div>
+  );
+};
+
+export default RoomBrowser;
@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { NetworkManager, Team } from '@/utils/network/NetworkManager';
+
+const TEAM_STYLES: Record<Team, { label: string; text: string }> = {
+  red: { label: 'Red team', text: 'text-red-400' },
+  blue: { label: 'Blue team', text: 'text-blue-400' }
+};
+
+// Match stats for the room, shown while Tab is held
+const ScoreboardOverlay: React.FC = () => {
+  const [, setScoreVersion] = useState<number>(0);
+  const [isHeld, setIsHeld] = useState<boolean>(false);
+  // Online play starts from the lobby, so the room is normally joined by the time we mount
+  const roomId = NetworkManager.hasInstance() ? NetworkManager.getInstance().getRoomId() : null;
+
+  useEffect(() => {
+    if (!roomId) return;
+    const networkManager = NetworkManager.getInstance();
+
+    // The scoreboard arrives with each round's start and end
+    const refresh = () => setScoreVersion((version) => version + 1);
+    const unsubscribers = [
+      networkManager.onRoundStarted(refresh),
+      networkManager.onRoundEnded(refresh),
+      networkManager.onMatchEnded(refresh),
+      networkManager.onMatchReset(refresh),
+      networkManager.onPlayerLeft(refresh)
+    ];
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Tab') return;
+      event.preventDefault(); // don't move focus around the page
+      setIsHeld(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Tab') setIsHeld(false);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('keyup', handleKeyUp);
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [roomId]);
+
+  if (!roomId) return null;
+  const networkManager = NetworkManager.getInstance();
+  const scoreboard = networkManager.getScoreboard();
+  if (!scoreboard || !isHeld) return null;
+
+  const playerId = networkManager.getPlayerId();
+  const nameOf = (id: string) => {
+    if (id === playerId) return 'You';
+    const name = `Player ${id.substring(0, 5)}`;
+    return networkManager.getRemotePlayers().get(id)?.isBot ? `${name} (bot)` : name;
+  };
+
+  // Most rounds won first, then kills
+  const rows = Object.values(scoreboard.players).sort((a, b) => b.roundsWon - a.roundsWon || b.kills - a.kills);
+  const teams = Object.values(scoreboard.teams);
+
+  return (
+    <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[60] pointer-events-none font-mono text-sm">
+      <div className="bg-black/80 text-white p-4 rounded-lg w-[28rem]">
+        {teams.length > 0 && (
+          <div className="flex justify-around mb-3">
+            {teams.map(({ team, roundsWon, kills }) => (
+              <div key={team} className={`text-center ${TEAM_STYLES[team].text}`}>
+                <div className="font-bold">{TEAM_STYLES[team].label}</div>
+                <div>{roundsWon} rounds · {kills} kills</div>
+              </div>
+            ))}
+          </div>
+        )}
+        <table className="w-full">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="font-normal">Player</th>
+              <th className="font-normal text-right">Rounds</th>
+              <th className="font-normal text-right">K</th>
+              <th className="font-normal text-right">D</th>
+              <th className="font-normal text-right">Damage</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((score) => (
+              <tr key={score.playerId} className={score.playerId === playerId ? 'text-yellow-300' : ''}>
+                <td className={score.team ? TEAM_STYLES[score.team].text : ''}>{nameOf(score.playerId)}</td>
+                <td className="text-right">{score.roundsWon}</td>
+                <td className="text-right">{score.kills}</td>
+                <td className="text-right">{score.deaths}</td>
+                <td className="text-right">{Math.round(score.damageDealt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreboardOverlay;
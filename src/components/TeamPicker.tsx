@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import { NetworkManager, Team } from '@/utils/network/NetworkManager';
+
+const TEAM_STYLES: Record<Team, { label: string; text: string; button: string }> = {
+  red: { label: 'Red team', text: 'text-red-400', button: 'bg-red-700 hover:bg-red-800' },
+  blue: { label: 'Blue team', text: 'text-blue-400', button: 'bg-blue-700 hover:bg-blue-800' }
+};
+
+// Two-column roster for team-mode lobbies; renders nothing in other modes
+const TeamPicker: React.FC = () => {
+  const networkManager = NetworkManager.getInstance();
+  const [, setRosterVersion] = useState<number>(0);
+
+  useEffect(() => {
+    const refresh = () => setRosterVersion((version) => version + 1);
+    const unsubscribers = [
+      networkManager.onTeamChanged(refresh),
+      networkManager.onPlayerJoined(refresh),
+      networkManager.onPlayerLeft(refresh)
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [networkManager]);
+
+  if (networkManager.getGameMode() !== 'teams') return null;
+
+  const myTeam = networkManager.getTeam();
+  const remotePlayers = Array.from(networkManager.getRemotePlayers().values());
+
+  return (
+    <div className="grid grid-cols-2 gap-3 mb-6">
+      {(Object.keys(TEAM_STYLES) as Team[]).map(team => {
+        const style = TEAM_STYLES[team];
+        const members = remotePlayers.filter(player => player.team === team);
+        return (
+          <div key={team} className="bg-gray-800 p-3 rounded">
+            <div className={`${style.text} font-bold mb-2`}>{style.label}</div>
+            {myTeam === team && <div className="text-green-400 text-sm">You</div>}
+            {members.map(player => (
+              <div key={player.id} className="text-gray-300 text-sm">
+                Player {player.id.substring(0, 5)}...
+              </div>
+            ))}
+            {myTeam !== team && (
+              <button
+                onClick={() => networkManager.chooseTeam(team)}
+                className={`mt-2 w-full py-1 rounded text-white text-sm ${style.button}`}
+              >
+                Join
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TeamPicker;
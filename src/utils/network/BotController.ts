@@ -0,0 +1,194 @@
+import { Quaternion, Scene, Vector3 } from "three";
+import { Enemy } from "../three/enemy";
+import { BotDifficulty, NetworkManager, NetworkPlayer, Team } from "./NetworkManager";
+
+// Tuning layered on top of the Enemy AI; cooldown is seconds between swings
+const DIFFICULTY_PRESETS: Record<BotDifficulty, { speed: number; attackRange: number; attackCooldown: number }> = {
+  easy: { speed: 1.4, attackRange: 1.6, attackCooldown: 3.0 },
+  normal: { speed: 2.0, attackRange: 2.0, attackCooldown: 1.8 },
+  hard: { speed: 2.8, attackRange: 2.2, attackCooldown: 0.9 }
+};
+
+// Bots stream their pose at 20Hz, like a player on a modest connection
+const BOT_UPDATE_INTERVAL_MS = 50;
+
+// Something a bot can fight: the local player or anyone else in the room
+export interface BotTarget {
+  id: string;
+  position: Vector3;
+  direction: Vector3;
+  team: Team | null;
+  isAlive: boolean;
+}
+
+/**
+ * Runs the room's bots on the host. Each bot is an Enemy chasing the nearest
+ * opponent; its pose goes to the server as a player_update carrying the bot's
+ * id, so other clients see it as an ordinary RemotePlayer.
+ */
+export class BotController {
+  private scene: Scene;
+  private networkManager: NetworkManager = NetworkManager.getInstance();
+  private getTargets: () => BotTarget[];
+  private bots: Map<string, Enemy> = new Map();
+  private difficulty: BotDifficulty;
+  private wasAttacking: Map<string, boolean> = new Map();
+  private lastSendTime: number = 0;
+
+  // Temporaries so update() doesn't allocate per bot
+  private hiltPosition: Vector3 = new Vector3();
+  private bladeRotation: Quaternion = new Quaternion();
+
+  constructor(scene: Scene, getTargets: () => BotTarget[]) {
+    this.scene = scene;
+    this.getTargets = getTargets;
+    this.difficulty = this.networkManager.getBotSettings().difficulty;
+  }
+
+  public update(deltaTime: number): void {
+    this.syncBots();
+    if (this.bots.size === 0) return;
+
+    const preset = DIFFICULTY_PRESETS[this.difficulty];
+    const players = this.networkManager.getRemotePlayers();
+    const targets = [...this.getTargets(), ...this.botTargets(players)];
+
+    this.bots.forEach((enemy, botId) => {
+      const self = players.get(botId);
+      if (!self) return;
+
+      // The server owns health; a defeated bot sits out until the next round
+      enemy.visible = self.health > 0;
+      if (!enemy.visible) return;
+
+      const target = this.nearestOpponent(botId, self.team, enemy.position, targets);
+      if (!target) return;
+
+      enemy.update(deltaTime, target.position, target.direction);
+
+      // Stretch or shorten the Enemy's own cooldown once each swing begins
+      const attacking = enemy.isAttacking();
+      if (attacking && !this.wasAttacking.get(botId)) {
+        enemy.setAttackCooldown(preset.attackCooldown * (0.8 + Math.random() * 0.4));
+      }
+      this.wasAttacking.set(botId, attacking);
+
+      // Report the swing once; the server checks the blade actually connected
+      if (
+        attacking &&
+        !enemy.hasAppliedDamageInCurrentAttack() &&
+        enemy.position.distanceTo(target.position) <= enemy.getAttackRange()
+      ) {
+        enemy.setDamageAppliedInCurrentAttack(true);
+        this.networkManager.sendPlayerHit(target.id, botId);
+      }
+    });
+
+    const now = performance.now();
+    if (now - this.lastSendTime >= BOT_UPDATE_INTERVAL_MS) {
+      this.lastSendTime = now;
+      this.sendPoses();
+    }
+  }
+
+  // Put every bot back at the spawn point the server chose for the new round
+  public resetToSpawns(players: NetworkPlayer[]): void {
+    players.forEach(player => {
+      const enemy = this.bots.get(player.id);
+      if (!enemy) return;
+      enemy.position.set(player.position.x, player.position.y, player.position.z);
+      enemy.quaternion.set(player.rotation.x, player.rotation.y, player.rotation.z, player.rotation.w);
+      enemy.clearDamageVisuals();
+      enemy.visible = true;
+    });
+  }
+
+  public dispose(): void {
+    this.bots.forEach(enemy => this.scene.remove(enemy));
+    this.bots.clear();
+    this.wasAttacking.clear();
+  }
+
+  // Match our Enemies to the bots we are currently responsible for
+  private syncBots(): void {
+    const settings = this.networkManager.getBotSettings();
+    if (settings.difficulty !== this.difficulty) {
+      this.difficulty = settings.difficulty;
+      this.dispose(); // rebuilt below with the new tuning
+    }
+
+    const controlled = this.networkManager.getControlledBots();
+    const controlledIds = new Set(controlled.map(bot => bot.id));
+
+    this.bots.forEach((enemy, botId) => {
+      if (!controlledIds.has(botId)) {
+        this.scene.remove(enemy);
+        this.bots.delete(botId);
+        this.wasAttacking.delete(botId);
+      }
+    });
+
+    controlled.forEach(bot => {
+      if (this.bots.has(bot.id)) return;
+
+      const preset = DIFFICULTY_PRESETS[this.difficulty];
+      const enemy = new Enemy(this.scene, { speed: preset.speed, attackRange: preset.attackRange });
+      enemy.setDebugMode(false);
+      enemy.position.set(bot.position.x, bot.position.y, bot.position.z);
+      enemy.quaternion.set(bot.rotation.x, bot.rotation.y, bot.rotation.z, bot.rotation.w);
+      enemy.name = `bot-${bot.id}`;
+      this.scene.add(enemy);
+      this.bots.set(bot.id, enemy);
+    });
+  }
+
+  // Bots are targets for each other too (free-for-all, or across teams)
+  private botTargets(players: Map<string, NetworkPlayer>): BotTarget[] {
+    return Array.from(this.bots.entries()).map(([botId, enemy]) => ({
+      id: botId,
+      position: enemy.position,
+      direction: enemy.getDirection(),
+      team: players.get(botId)?.team ?? null,
+      isAlive: (players.get(botId)?.health ?? 0) > 0
+    }));
+  }
+
+  private nearestOpponent(botId: string, team: Team | null, from: Vector3, targets: BotTarget[]): BotTarget | null {
+    let nearest: BotTarget | null = null;
+    let nearestDistance = Infinity;
+
+    for (const target of targets) {
+      if (target.id === botId || !target.isAlive) continue;
+      if (team !== null && target.team === team) continue;
+
+      const distance = from.distanceTo(target.position);
+      if (distance < nearestDistance) {
+        nearest = target;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  private sendPoses(): void {
+    this.bots.forEach((enemy, botId) => {
+      if (!enemy.visible) return;
+
+      const lightsaber = enemy.getLightsaber();
+      lightsaber.getWorldPosition(this.hiltPosition);
+      lightsaber.getWorldQuaternion(this.bladeRotation);
+
+      this.networkManager.sendBotUpdate(
+        botId,
+        enemy.position,
+        enemy.quaternion,
+        this.hiltPosition,
+        this.bladeRotation,
+        enemy.isAttacking(),
+        enemy.isBlocking(),
+        1,
+        'light'
+      );
+    });
+  }
+}
@@ -0,0 +1,85 @@
+export interface ClockStats {
+  rtt: number; // ms, smoothed round-trip time
+  jitter: number; // ms, mean variation between consecutive round trips
+  clockOffset: number; // ms, add to performance.now() to get server time
+  samples: number;
+}
+
+/**
+ * NTP-style clock estimator. Each ping/pong gives one round-trip sample;
+ * the offset is taken from the fastest recent round trip because it has
+ * the least queuing delay baked into it.
+ */
+export class ClockSync {
+  private readonly windowSize: number;
+  private window: { rtt: number; offset: number }[] = [];
+  private rtt: number = 0;
+  private jitter: number = 0;
+  private offset: number = 0;
+  private lastRtt: number | null = null;
+  private sampleCount: number = 0;
+
+  constructor(windowSize: number = 8) {
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * @param sentAt local time the ping left (performance.now())
+   * @param serverTime server clock when it answered (Date.now() on the server)
+   * @param receivedAt local time the pong arrived (performance.now())
+   */
+  public addSample(sentAt: number, serverTime: number, receivedAt: number): void {
+    const rtt = Math.max(0, receivedAt - sentAt);
+    const offset = serverTime - (sentAt + rtt / 2);
+
+    this.window.push({ rtt, offset });
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+
+    // Smoothed RTT and RFC 3550-style jitter
+    this.rtt = this.sampleCount === 0 ? rtt : this.rtt * 0.875 + rtt * 0.125;
+    if (this.lastRtt !== null) {
+      this.jitter += (Math.abs(rtt - this.lastRtt) - this.jitter) / 16;
+    }
+    this.lastRtt = rtt;
+    this.sampleCount++;
+
+    const best = this.window.reduce((a, b) => (b.rtt < a.rtt ? b : a));
+    this.offset = best.offset;
+  }
+
+  public isSynced(): boolean {
+    return this.sampleCount > 0;
+  }
+
+  public getRtt(): number {
+    return this.rtt;
+  }
+
+  public getJitter(): number {
+    return this.jitter;
+  }
+
+  public getOffset(): number {
+    return this.offset;
+  }
+
+  public getServerTime(): number {
+    return performance.now() + this.offset;
+  }
+
+  // Convert a server timestamp to the local performance.now() clock
+  public toLocalTime(serverTime: number): number {
+    return serverTime - this.offset;
+  }
+
+  public getStats(): ClockStats {
+    return {
+      rtt: this.rtt,
+      jitter: this.jitter,
+      clockOffset: this.offset,
+      samples: this.sampleCount
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { InputAckEvent, PlayerInputCommand } from "./protocol";
+import { MovementState, stepMovement } from "./movement";
+
+export type InputCommand = PlayerInputCommand;
+
+/**
+ * Client-side prediction for the local player. Each input command is kept
+ * until the server acknowledges it. An ack carries the authoritative state
+ * after that command; replaying the commands still in flight on top of it
+ * gives where the player should be right now.
+ */
+export class InputPredictor {
+  private pending: InputCommand[] = [];
+  private nextSequence: number = 0;
+  private latestAck: InputAckEvent | null = null;
+  private acknowledgedCommand: InputCommand | null = null; // the command latestAck refers to
+  private hasNewAck: boolean = false;
+  private readonly maxPending: number;
+
+  // At 60Hz, 120 commands is two seconds without an ack
+  constructor(maxPending: number = 120) {
+    this.maxPending = maxPending;
+  }
+
+  // Number a command and keep it for replay
+  public record(command: Omit<InputCommand, "sequence">): InputCommand {
+    const sequenced: InputCommand = { ...command, sequence: this.nextSequence++ };
+    this.pending.push(sequenced);
+    if (this.pending.length > this.maxPending) {
+      this.pending.shift();
+    }
+    return sequenced;
+  }
+
+  public acknowledge(ack: InputAckEvent): void {
+    // Acks can arrive out of order after a reconnect; only move forwards
+    if (this.latestAck && ack.sequence <= this.latestAck.sequence) return;
+    this.latestAck = ack;
+    this.hasNewAck = true;
+    this.acknowledgedCommand = this.pending.find(command => command.sequence === ack.sequence) ?? null;
+    this.pending = this.pending.filter(command => command.sequence > ack.sequence);
+  }
+
+  // The newest command the server confirmed, which it can use as a delta baseline
+  public getAcknowledgedCommand(): InputCommand | null {
+    return this.acknowledgedCommand;
+  }
+
+  /**
+   * The acknowledged state with every unacknowledged command replayed, or
+   * null if nothing new has been acknowledged since the last call.
+   */
+  public reconcile(): MovementState | null {
+    if (!this.hasNewAck || !this.latestAck) return null;
+    this.hasNewAck = false;
+
+    const state: MovementState = {
+      position: { ...this.latestAck.position },
+      velocityY: this.latestAck.velocityY,
+      grounded: this.latestAck.grounded
+    };
+    this.pending.forEach(command => stepMovement(state, command, command.dt));
+    return state;
+  }
+
+  // Commands in flight die with the connection; the sequence keeps counting
+  public clearPending(): void {
+    this.pending = [];
+    this.hasNewAck = false;
+    this.acknowledgedCommand = null;
+  }
+
+  public getPendingCount(): number {
+    return this.pending.length;
+  }
+}
@@ -1,66 +1,212 @@
 import { io, Socket } from "socket.io-client";
 import { Vector3, Quaternion } from "three";
+import { ClockStats, ClockSync } from "./ClockSync";
+import { InputCommand, InputPredictor } from "./InputPredictor";
+import { MovementState } from "./movement";
+import { decodeWorldSnapshot, encodeBotUpdate, encodeInputBatch, quantizeInput } from "./codec";
+import { SnapshotHistory } from "./SnapshotHistory";
+import {
+  PROTOCOL_VERSION,
+  MAX_CHAT_LENGTH,
+  MAX_INPUTS_PER_BATCH,
+  AttackType,
+  BotDifficulty,
+  BotSettingsEvent,
+  ChatMessageEvent,
+  ClientToServerEvents,
+  CreateRoomOptions,
+  Emote,
+  ServerMessageEvent,
+  ServerToClientEvents,
+  ErrorCode,
+  GameMode,
+  HandshakeErrorData,
+  HitRejectedEvent,
+  HostChangedEvent,
+  InviteCreatedEvent,
+  MatchEndedEvent,
+  MatchFoundEvent,
+  MatchResetEvent,
+  NetworkPlayer,
+  PlayerDamagedEvent,
+  PlayerDisconnectedEvent,
+  PlayerJoinedEvent,
+  PlayerLeftEvent,
+  PlayerReconnectedEvent,
+  PlayerUpdatedEvent,
+  ProfileEvent,
+  QueueJoinedEvent,
+  RatingUpdatedEvent,
+  Region,
+  RematchUpdatedEvent,
+  RoomCreatedEvent,
+  RoundEndedEvent,
+  RoundStartedEvent,
+  Scoreboard,
+  RoomSummary,
+  SessionResumedEvent,
+  SpectateStartedEvent,
+  SpectatorsUpdatedEvent,
+  Team,
+  TeamChangedEvent,
+  WireEncoding,
+  WorldSnapshotEvent
+} from "./protocol";
 
-export interface NetworkPlayer {
-  id: string;
-  position: { x: number; y: number; z: number };
-  rotation: { x: number; y: number; z: number; w: number };
-  health: number;
-  lightsaberPosition: { x: number; y: number; z: number };
-  lightsaberRotation: { x: number; y: number; z: number; w: number };
-  isAttacking: boolean;
-  isBlocking: boolean;
-}
+export type {
+  BestOf,
+  BotDifficulty,
+  ChatMessageEvent,
+  CreateRoomOptions,
+  Emote,
+  GameMode,
+  MatchEndedEvent,
+  NetworkPlayer,
+  Region,
+  RematchUpdatedEvent,
+  RoomSummary,
+  RoundEndedEvent,
+  Scoreboard,
+  ServerMessageEvent,
+  Team
+} from "./protocol";
 
-interface RoomCreatedEvent {
-  roomId: string;
-  joinUrl: string;
-}
+const CLOCK_SYNC_INTERVAL_MS = 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+const PROFILE_STORAGE_KEY = "lightsaber-profile-id";
+
+// Set to "json" in localStorage to get readable pose traffic in the devtools
+const ENCODING_STORAGE_KEY = "lightsaber-wire-encoding";
+
+// Delta-encode inputs only against reasonably fresh acks; the server keeps
+// a bounded history of baselines
+const MAX_BASELINE_AGE = 60;
 
-interface PlayerJoinedEvent {
-  playerId: string;
-  players: NetworkPlayer[];
+// Until the server tells us its tick rate, send input this often
+const DEFAULT_TICK_RATE = 30;
+
+// Clock sync plus how much pose traffic we have moved, in bytes on the wire
+export interface NetworkStats extends ClockStats {
+  encoding: WireEncoding;
+  tickRate: number;
+  bytesSent: number;
+  bytesReceived: number;
 }
 
-interface PlayerUpdatedEvent {
-  playerId: string;
-  position: { x: number; y: number; z: number };
-  rotation: { x: number; y: number; z: number; w: number };
-  lightsaberPosition: { x: number; y: number; z: number };
-  lightsaberRotation: { x: number; y: number; z: number; w: number };
-  isAttacking: boolean;
-  isBlocking: boolean;
+// Long-lived identity that our rating is stored under; survives page reloads
+function loadProfileId(): string {
+  try {
+    let profileId = localStorage.getItem(PROFILE_STORAGE_KEY);
+    if (!profileId) {
+      profileId = crypto.randomUUID();
+      localStorage.setItem(PROFILE_STORAGE_KEY, profileId);
+    }
+    return profileId;
+  } catch {
+    // Storage blocked (private mode etc.) - rated as a new player each visit
+    return crypto.randomUUID();
+  }
 }
 
-interface PlayerDamagedEvent {
-  playerId: string;
-  health: number;
-  attackerId: string;
+function requestedEncoding(): WireEncoding {
+  try {
+    return localStorage.getItem(ENCODING_STORAGE_KEY) === "json" ? "json" : "binary";
+  } catch {
+    return "binary";
+  }
 }
 
+// Errors that mean we are not (or no longer) in the room we asked for
+const ROOM_EXIT_ERRORS: ReadonlySet<ErrorCode> = new Set<ErrorCode>([
+  "room_not_found",
+  "game_in_progress",
+  "room_full",
+  "password_required",
+  "wrong_password",
+  "invite_required",
+  "invite_invalid",
+  "banned",
+  "kicked",
+  "room_closed",
+  "too_many_strikes"
+]);
+
 export class NetworkManager {
   private static instance: NetworkManager;
-  private socket: Socket;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents>;
   private roomId: string | null = null;
+  private playerId: string | null = null;
+  private sessionToken: string | null = null; // presented on reconnect to reclaim our slot
   private isHost: boolean = false;
+  private isSpectator: boolean = false;
+  private spectatorCount: number = 0;
+  private gameMode: GameMode = "duel";
+  private team: Team | null = null; // our team in team mode
+  private scoreboard: Scoreboard | null = null; // latest from the server while a match runs
+  private botSettings: BotSettingsEvent = { fillWithBots: false, difficulty: "normal" };
+  private profileId: string = loadProfileId();
+  private profile: ProfileEvent | null = null;
+  private queuedAt: number | null = null; // server time we joined the matchmaking queue
   private remotePlayers: Map<string, NetworkPlayer> = new Map();
+  private clockSync: ClockSync = new ClockSync();
+  private clockSyncTimer: ReturnType<typeof setInterval> | null = null;
+  private inputPredictor: InputPredictor = new InputPredictor();
+  private snapshotHistory: SnapshotHistory = new SnapshotHistory(); // binary snapshots we decoded, as delta baselines
+  private wireEncoding: WireEncoding = "json"; // confirmed by the server in the session event
+  private tickRate: number = DEFAULT_TICK_RATE; // server snapshots per second; our input send rate
+  private queuedInputs: InputCommand[] = []; // recorded and predicted, not yet sent
+  private lastInputSendAt: number = 0; // performance.now()
+  private bytesSent: number = 0;
+  private bytesReceived: number = 0;
+  private statsListeners: Set<(stats: NetworkStats) => void> = new Set();
+  private chatListeners: Set<(message: ChatMessageEvent) => void> = new Set();
+  private serverMessageListeners: Set<(message: ServerMessageEvent) => void> = new Set();
+  private playerJoinedListeners: Set<(data: PlayerJoinedEvent) => void> = new Set();
+  private playerLeftListeners: Set<(data: PlayerLeftEvent) => void> = new Set();
+  private teamChangedListeners: Set<(data: TeamChangedEvent) => void> = new Set();
+  private gameStartedListeners: Set<() => void> = new Set();
+  private hostChangedListeners: Set<(data: HostChangedEvent) => void> = new Set();
+  private playerUpdatedListeners: Set<(data: PlayerUpdatedEvent) => void> = new Set();
+  private playerDamagedListeners: Set<(data: PlayerDamagedEvent) => void> = new Set();
+  private playerDisconnectedListeners: Set<(data: PlayerDisconnectedEvent) => void> = new Set();
+  private playerReconnectedListeners: Set<(data: PlayerReconnectedEvent) => void> = new Set();
+  private roundStartedListeners: Set<(data: RoundStartedEvent) => void> = new Set();
+  private playerDefeatedListeners: Set<(playerId: string, winnerId: string) => void> = new Set();
+  private suddenDeathListeners: Set<(roundNumber: number) => void> = new Set();
+  private roundEndedListeners: Set<(data: RoundEndedEvent) => void> = new Set();
+  private matchEndedListeners: Set<(data: MatchEndedEvent) => void> = new Set();
+  private rematchUpdatedListeners: Set<(data: RematchUpdatedEvent) => void> = new Set();
+  private matchResetListeners: Set<(data: MatchResetEvent) => void> = new Set();
   
   // Event callbacks
   private onRoomCreatedCallback: ((data: RoomCreatedEvent) => void) | null = null;
-  private onPlayerJoinedCallback: ((data: PlayerJoinedEvent) => void) | null = null;
-  private onGameStartedCallback: (() => void) | null = null;
-  private onPlayerUpdatedCallback: ((data: PlayerUpdatedEvent) => void) | null = null;
-  private onPlayerDamagedCallback: ((data: PlayerDamagedEvent) => void) | null = null;
-  private onPlayerDefeatedCallback: ((playerId: string, winnerId: string) => void) | null = null;
-  private onHostDisconnectedCallback: (() => void) | null = null;
-  private onErrorCallback: ((message: string) => void) | null = null;
+  private onSessionResumedCallback: ((data: SessionResumedEvent) => void) | null = null;
+  private onSpectateStartedCallback: ((data: SpectateStartedEvent) => void) | null = null;
+  private onSpectatorsUpdatedCallback: ((count: number) => void) | null = null;
+  private onProfileCallback: ((data: ProfileEvent) => void) | null = null;
+  private onQueueJoinedCallback: ((data: QueueJoinedEvent) => void) | null = null;
+  private onQueueLeftCallback: (() => void) | null = null;
+  private onMatchFoundCallback: ((data: MatchFoundEvent) => void) | null = null;
+  private onRatingUpdatedCallback: ((data: RatingUpdatedEvent) => void) | null = null;
+  private onBotSettingsCallback: ((data: BotSettingsEvent) => void) | null = null;
+  private onHitRejectedCallback: ((data: HitRejectedEvent) => void) | null = null;
+  private onErrorCallback: ((message: string, code?: ErrorCode) => void) | null = null;
 
   private constructor() {
     // Connect to the server (use environment variable or default)
     const serverUrl = process.env.SERVER_URL || "http://localhost:3000";
-    this.socket = io(serverUrl);
+    // auth is re-read on every reconnect attempt, so the latest session token is sent
+    this.socket = io(serverUrl, {
+      auth: (cb) => cb({
+        protocolVersion: PROTOCOL_VERSION,
+        sessionToken: this.sessionToken ?? undefined,
+        profileId: this.profileId,
+        encoding: requestedEncoding()
+      })
+    });
     
     this.setupSocketListeners();
+    this.startClockSync();
   }
 
   public static getInstance(): NetworkManager {
@@ -70,84 +216,423 @@ export class NetworkManager {
     return NetworkManager.instance;
   }
 
+  // True once something has connected us; lets single-player UI avoid opening a socket
+  public static hasInstance(): boolean {
+    return NetworkManager.instance !== undefined;
+  }
+
   private setupSocketListeners(): void {
+    // Handshake refused - a version mismatch will not fix itself by retrying
+    this.socket.on("connect_error", (err: Error & { data?: HandshakeErrorData }) => {
+      if (err.data?.code !== "protocol_mismatch") return;
+      
+      this.socket.disconnect();
+      this.stopClockSync();
+      const message = `Client protocol v${PROTOCOL_VERSION} does not match server v${err.data.serverVersion}; please reload the page`;
+      console.error(message);
+      if (this.onErrorCallback) this.onErrorCallback(message, err.data.code);
+    });
+
+    // Session issued (or reissued) by the server
+    this.socket.on("session", ({ playerId, sessionToken, encoding, tickRate }) => {
+      this.playerId = playerId;
+      this.sessionToken = sessionToken;
+      this.wireEncoding = encoding;
+      this.tickRate = tickRate;
+    });
+
+    // Our stored rating, loaded by the server after connect
+    this.socket.on("profile", (data) => {
+      this.profile = data;
+      if (this.onProfileCallback) this.onProfileCallback(data);
+    });
+
+    // We reconnected in time and got our old slot back
+    this.socket.on("session_resumed", (data) => {
+      console.log(`Resumed session in room ${data.roomId}`);
+      this.roomId = data.roomId;
+      this.isHost = data.isHost;
+      this.remotePlayers.clear();
+      data.players.forEach(player => {
+        if (player.id !== this.playerId) {
+          this.remotePlayers.set(player.id, player);
+        }
+      });
+      
+      if (this.onSessionResumedCallback) this.onSessionResumedCallback(data);
+    });
+
+    // Our own connection dropped; socket.io keeps retrying in the background
+    this.socket.on("disconnect", (reason) => {
+      if (this.socket.active) {
+        console.warn(`Connection lost (${reason}), trying to resume session`);
+      }
+      this.inputPredictor.clearPending();
+      this.queuedInputs = [];
+      // The server starts the next socket over with full snapshots
+      this.snapshotHistory.clear();
+      // The server drops us from the matchmaking queue when the socket goes
+      if (this.queuedAt !== null) {
+        this.queuedAt = null;
+        if (this.onQueueLeftCallback) this.onQueueLeftCallback();
+      }
+    });
+
+    // Joined as a spectator: every player in the room is remote to us
+    this.socket.on("spectate_started", (data) => {
+      this.roomId = data.roomId;
+      this.isHost = false;
+      this.isSpectator = true;
+      this.spectatorCount = data.spectatorCount;
+      this.remotePlayers.clear();
+      data.players.forEach(player => this.remotePlayers.set(player.id, player));
+      
+      if (this.onSpectateStartedCallback) this.onSpectateStartedCallback(data);
+    });
+
+    this.socket.on("spectators_updated", (data) => {
+      this.spectatorCount = data.count;
+      if (this.onSpectatorsUpdatedCallback) this.onSpectatorsUpdatedCallback(data.count);
+    });
+
+    // Answer the server's latency probes so it can lag-compensate our hits
+    this.socket.on("latency_probe", (ack) => {
+      ack();
+    });
+
+    // Clock sync reply to one of our pings
+    this.socket.on("clock_pong", ({ clientTime, serverTime }) => {
+      this.clockSync.addSample(clientTime, serverTime, performance.now());
+      const stats = this.getNetworkStats();
+      this.statsListeners.forEach(listener => listener(stats));
+    });
+
+    // Ranked matchmaking
+    this.socket.on("queue_joined", (data) => {
+      this.queuedAt = data.queuedAt;
+      if (this.onQueueJoinedCallback) this.onQueueJoinedCallback(data);
+    });
+
+    this.socket.on("queue_left", () => {
+      this.queuedAt = null;
+      if (this.onQueueLeftCallback) this.onQueueLeftCallback();
+    });
+
+    // The server paired us and put both players in a new room; game_started follows
+    this.socket.on("match_found", (data) => {
+      console.log(`Match found: room ${data.roomId} vs ${data.opponentId} (${data.opponentRating})`);
+      this.queuedAt = null;
+      this.roomId = data.roomId;
+      this.isHost = data.hostId === this.getPlayerId();
+      this.isSpectator = false;
+      if (this.onMatchFoundCallback) this.onMatchFoundCallback(data);
+    });
+
+    this.socket.on("rating_updated", (data) => {
+      if (data.playerId === this.getPlayerId() && this.profile) {
+        const won = data.delta > 0;
+        this.profile = {
+          rating: data.rating,
+          gamesPlayed: data.gamesPlayed,
+          wins: this.profile.wins + (won ? 1 : 0),
+          losses: this.profile.losses + (won ? 0 : 1)
+        };
+      }
+      if (this.onRatingUpdatedCallback) this.onRatingUpdatedCallback(data);
+    });
+
     // Room creation response
-    this.socket.on("room_created", (data: RoomCreatedEvent) => {
+    this.socket.on("room_created", (data) => {
       this.roomId = data.roomId;
       this.isHost = true;
+      this.isSpectator = false;
+      this.gameMode = data.gameMode;
+      this.team = data.team;
       if (this.onRoomCreatedCallback) this.onRoomCreatedCallback(data);
     });
 
     // Player joined event
-    this.socket.on("player_joined", (data: PlayerJoinedEvent) => {
+    this.socket.on("player_joined", (data) => {
+      this.gameMode = data.gameMode;
+      this.team = data.players.find(player => player.id === this.getPlayerId())?.team ?? this.team;
+      
       // Update remote players
-      data.players.forEach(player => {
-        if (player.id !== this.socket.id) {
-          this.remotePlayers.set(player.id, player);
-        }
-      });
+      this.syncRemotePlayers(data.players);
       
-      if (this.onPlayerJoinedCallback) this.onPlayerJoinedCallback(data);
+      this.playerJoinedListeners.forEach(listener => listener(data));
     });
 
     // Game started event
-    this.socket.on("game_started", () => {
-      if (this.onGameStartedCallback) this.onGameStartedCallback();
+    this.socket.on("game_started", (data) => {
+      // Matchmade rooms skip player_joined, so this is our first look at the roster
+      this.syncRemotePlayers(data.players);
+      
+      this.gameStartedListeners.forEach(listener => listener());
     });
 
-    // Player position/state update
-    this.socket.on("player_updated", (data: PlayerUpdatedEvent) => {
-      // Update remote player's state
-      const player = this.remotePlayers.get(data.playerId);
-      if (player) {
-        player.position = data.position;
-        player.rotation = data.rotation;
-        player.lightsaberPosition = data.lightsaberPosition;
-        player.lightsaberRotation = data.lightsaberRotation;
-        player.isAttacking = data.isAttacking;
-        player.isBlocking = data.isBlocking;
+    // How the room's bots behave; the host simulates them
+    this.socket.on("bot_settings", (data) => {
+      this.botSettings = data;
+      if (this.onBotSettingsCallback) this.onBotSettingsCallback(data);
+    });
+
+    // Someone moved team in the lobby
+    this.socket.on("team_changed", (data) => {
+      if (data.playerId === this.getPlayerId()) {
+        this.team = data.team;
+      } else {
+        const player = this.remotePlayers.get(data.playerId);
+        if (player) player.team = data.team;
       }
+      this.teamChangedListeners.forEach(listener => listener(data));
+    });
+
+    // Round lifecycle, driven entirely by the server
+    this.socket.on("round_started", (data) => {
+      // Everyone has been put back at their spawn with full health
+      this.syncRemotePlayers(data.players);
+      this.scoreboard = data.scoreboard;
+      this.roundStartedListeners.forEach(listener => listener(data));
+    });
+
+    this.socket.on("sudden_death", ({ roundNumber }) => {
+      this.suddenDeathListeners.forEach(listener => listener(roundNumber));
+    });
+
+    this.socket.on("round_ended", (data) => {
+      this.scoreboard = data.scoreboard;
+      this.roundEndedListeners.forEach(listener => listener(data));
+    });
+
+    this.socket.on("match_ended", (data) => {
+      this.scoreboard = data.scoreboard;
+      this.matchEndedListeners.forEach(listener => listener(data));
+    });
+
+    this.socket.on("rematch_updated", (data) => {
+      this.rematchUpdatedListeners.forEach(listener => listener(data));
+    });
+
+    // Rematch agreed: back to the lobby until the host starts again
+    this.socket.on("match_reset", (data) => {
+      this.syncRemotePlayers(data.players);
+      this.scoreboard = null;
+      this.matchResetListeners.forEach(listener => listener(data));
+    });
+
+    // Everyone else's changed poses, once per server tick, in whichever
+    // encoding we negotiated
+    this.socket.on("world_snapshot", (data) => {
+      this.bytesReceived += JSON.stringify(data).length;
+      this.handleWorldSnapshot(data);
+    });
+    
+    // Binary snapshots are deltas against one we acknowledged. They repeat
+    // whatever changed since then, so skip poses we have already seen.
+    this.socket.on("world_snapshot_bin", (data) => {
+      this.bytesReceived += data.byteLength;
+      const snapshot = decodeWorldSnapshot(data, tick => this.snapshotHistory.get(tick));
+      if (!snapshot) return;
       
-      if (this.onPlayerUpdatedCallback) this.onPlayerUpdatedCallback(data);
+      const seen = this.snapshotHistory.latest();
+      this.snapshotHistory.record(snapshot);
+      this.socket.emit("snapshot_ack", snapshot.tick);
+      this.handleWorldSnapshot({
+        ...snapshot,
+        players: snapshot.players.filter(pose => seen?.get(pose.playerId)?.timestamp !== pose.timestamp)
+      });
     });
 
+    // The server applied one of our inputs
+    this.socket.on("input_ack", (data) => {
+      this.inputPredictor.acknowledge(data);
+    });
+    
     // Player damaged event
-    this.socket.on("player_damaged", (data: PlayerDamagedEvent) => {
+    this.socket.on("player_damaged", (data) => {
       // Update remote player's health
       const player = this.remotePlayers.get(data.playerId);
       if (player) {
         player.health = data.health;
       }
       
-      if (this.onPlayerDamagedCallback) this.onPlayerDamagedCallback(data);
+      this.playerDamagedListeners.forEach(listener => listener(data));
     });
 
     // Player defeated event
     this.socket.on("player_defeated", ({ playerId, winnerId }) => {
-      if (this.onPlayerDefeatedCallback) this.onPlayerDefeatedCallback(playerId, winnerId);
+      this.playerDefeatedListeners.forEach(listener => listener(playerId, winnerId));
+    });
+
+    // Player left the room
+    this.socket.on("player_left", (data) => {
+      this.remotePlayers.delete(data.playerId);
+      this.playerLeftListeners.forEach(listener => listener(data));
+    });
+
+    // Another player dropped and may come back within the grace period
+    this.socket.on("player_disconnected", (data) => {
+      const player = this.remotePlayers.get(data.playerId);
+      if (player) player.isConnected = false;
+      this.playerDisconnectedListeners.forEach(listener => listener(data));
     });
 
-    // Host disconnected event
-    this.socket.on("host_disconnected", () => {
-      if (this.onHostDisconnectedCallback) this.onHostDisconnectedCallback();
+    this.socket.on("player_reconnected", (data) => {
+      const player = this.remotePlayers.get(data.playerId);
+      if (player) player.isConnected = true;
+      this.playerReconnectedListeners.forEach(listener => listener(data));
+    });
+
+    // Server refused a reported hit
+    this.socket.on("hit_rejected", (data) => {
+      console.warn(`Hit on ${data.targetId} rejected by server: ${data.reason}`);
+      if (this.onHitRejectedCallback) this.onHitRejectedCallback(data);
+    });
+
+    // Chat lines and emotes from our room
+    this.socket.on("chat_message", (data) => {
+      this.chatListeners.forEach(listener => listener(data));
+    });
+    
+    // Announcements from the server operators
+    this.socket.on("server_message", (data) => {
+      console.log(`Server message: ${data.text}`);
+      this.serverMessageListeners.forEach(listener => listener(data));
+    });
+    
+    // Host left and the server handed the room to someone else
+    this.socket.on("host_changed", (data) => {
+      this.isHost = data.hostId === this.getPlayerId();
+      console.log(`Host changed to ${data.hostId}${this.isHost ? ' (us)' : ''}`);
+      this.hostChangedListeners.forEach(listener => listener(data));
     });
 
     // Error events
-    this.socket.on("error", ({ message }) => {
-      if (this.onErrorCallback) this.onErrorCallback(message);
+    this.socket.on("error", ({ message, code }) => {
+      console.error(`Server error (${code}): ${message}`);
+      if (ROOM_EXIT_ERRORS.has(code)) {
+        this.roomId = null;
+        this.isHost = false;
+        this.isSpectator = false;
+        this.remotePlayers.clear();
+      }
+      if (this.onErrorCallback) this.onErrorCallback(message, code);
+    });
+  }
+
+  private handleWorldSnapshot(snapshot: WorldSnapshotEvent): void {
+    snapshot.players.forEach(data => this.handlePlayerUpdated(data));
+  }
+
+  private handlePlayerUpdated(data: PlayerUpdatedEvent): void {
+    // Update remote player's state
+    const player = this.remotePlayers.get(data.playerId);
+    if (player) {
+      player.position = data.position;
+      player.rotation = data.rotation;
+      player.lightsaberPosition = data.lightsaberPosition;
+      player.lightsaberRotation = data.lightsaberRotation;
+      player.isAttacking = data.isAttacking;
+      player.isBlocking = data.isBlocking;
+    }
+    
+    this.playerUpdatedListeners.forEach(listener => listener(data));
+  }
+
+  private syncRemotePlayers(players: NetworkPlayer[]): void {
+    players.forEach(player => {
+      if (player.id !== this.getPlayerId()) {
+        this.remotePlayers.set(player.id, player);
+      }
     });
   }
 
+  // Ping the server periodically to track RTT, jitter and clock offset
+  private startClockSync(): void {
+    const ping = () => {
+      if (this.socket.connected) {
+        this.socket.emit("clock_ping", performance.now());
+      }
+    };
+    
+    this.socket.on("connect", ping);
+    this.clockSyncTimer = setInterval(ping, CLOCK_SYNC_INTERVAL_MS);
+  }
+
+  private stopClockSync(): void {
+    if (this.clockSyncTimer) {
+      clearInterval(this.clockSyncTimer);
+      this.clockSyncTimer = null;
+    }
+  }
+
   // Create a new room as host
-  public createRoom(): void {
-    this.socket.emit("create_room");
+  public createRoom(options?: CreateRoomOptions): void {
+    this.socket.emit("create_room", options);
+  }
+
+  // Fetch the public rooms for the room browser
+  public listRooms(): Promise<RoomSummary[]> {
+    return new Promise((resolve, reject) => {
+      this.socket.timeout(REQUEST_TIMEOUT_MS).emit("list_rooms", (err, rooms) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rooms);
+        }
+      });
+    });
   }
 
-  // Join an existing room
-  public joinRoom(roomId: string): void {
+  // Join an existing room, with its password or an invite token if it needs one
+  public joinRoom(roomId: string, credentials: { password?: string; inviteToken?: string } = {}): void {
     this.roomId = roomId;
     this.isHost = false;
-    this.socket.emit("join_room", roomId);
+    this.isSpectator = false;
+    this.socket.emit("join_room", { roomId, ...credentials });
+  }
+
+  // Watch a room without taking a player slot; works mid-match too
+  public spectateRoom(roomId: string, credentials: { password?: string; inviteToken?: string } = {}): void {
+    this.roomId = roomId;
+    this.isHost = false;
+    this.socket.emit("join_room", { roomId, ...credentials, asSpectator: true });
+  }
+
+  // Queue for a ranked match; the server answers with queue_joined, then match_found
+  public joinQueue(region: Region): void {
+    this.socket.emit("join_queue", { region });
+  }
+
+  public leaveQueue(): void {
+    this.socket.emit("leave_queue");
+  }
+
+  // Get a fresh one-time invite link for our room (host only)
+  public createInvite(): Promise<InviteCreatedEvent> {
+    return new Promise((resolve, reject) => {
+      if (!this.isHost || !this.roomId) {
+        reject(new Error("Only the host can create invites"));
+        return;
+      }
+      
+      this.socket.timeout(REQUEST_TIMEOUT_MS).emit("create_invite", { roomId: this.roomId }, (err, invite) => {
+        if (err || !invite) {
+          reject(err ?? new Error("Invite refused by server"));
+        } else {
+          resolve(invite);
+        }
+      });
+    });
+  }
+
+  // Remove a player from our room (host only); banned players cannot rejoin
+  public kickPlayer(targetId: string, ban: boolean = false): void {
+    if (this.isHost && this.roomId) {
+      this.socket.emit("kick_player", { roomId: this.roomId, targetId, ban });
+    } else {
+      console.error("Only the host can kick players");
+    }
   }
 
   // Start the game (host only)
@@ -159,69 +644,311 @@ export class NetworkManager {
     }
   }
 
-  // Send player update to server
-  public sendPlayerUpdate(
+  // Pick a side in a team-mode lobby
+  public chooseTeam(team: Team): void {
+    if (this.roomId && !this.isSpectator) {
+      this.socket.emit("choose_team", { roomId: this.roomId, team });
+    }
+  }
+
+  // Ask for a rematch once the match is over; the room reopens when everyone agrees
+  public voteRematch(): void {
+    if (this.roomId && !this.isSpectator) {
+      this.socket.emit("rematch_vote", this.roomId);
+    }
+  }
+
+  /**
+   * Record one frame of local input for prediction. Frames are sent in
+   * batches at the server's tick rate, so a fast renderer costs no more
+   * messages than a slow one; the server moves us through each frame and
+   * acknowledges the batch.
+   */
+  public sendPlayerInput(command: Omit<InputCommand, "sequence" | "timestamp">): void {
+    if (!this.roomId || this.isSpectator) return;
+    
+    const timestamped = { ...command, timestamp: this.getServerTime() };
+    // In binary, predict with exactly the values the server will decode
+    this.queuedInputs.push(this.inputPredictor.record(
+      this.wireEncoding === "binary" ? quantizeInput({ ...timestamped, sequence: 0 }) : timestamped
+    ));
+    
+    const now = performance.now();
+    if (now - this.lastInputSendAt >= 1000 / this.tickRate || this.queuedInputs.length >= MAX_INPUTS_PER_BATCH) {
+      this.lastInputSendAt = now;
+      this.flushInputs();
+    }
+  }
+
+  private flushInputs(): void {
+    const inputs = this.queuedInputs;
+    this.queuedInputs = [];
+    if (inputs.length === 0 || !this.roomId) return;
+    
+    if (this.wireEncoding === "json") {
+      const payload = { roomId: this.roomId, inputs };
+      this.bytesSent += JSON.stringify(payload).length;
+      this.socket.emit("player_input", payload);
+      return;
+    }
+    
+    const baseline = this.inputPredictor.getAcknowledgedCommand();
+    const usable = baseline && inputs[0].sequence - baseline.sequence <= MAX_BASELINE_AGE ? baseline : null;
+    const data = encodeInputBatch(inputs, usable);
+    this.bytesSent += data.byteLength;
+    this.socket.emit("player_input_bin", this.roomId, data);
+  }
+
+  // Where the server says we are, with our unacknowledged inputs replayed on
+  // top. Null when no new acknowledgement has arrived since the last call.
+  public reconcileMovement(): MovementState | null {
+    return this.inputPredictor.reconcile();
+  }
+
+  // Host only: stream the pose of a bot we simulate
+  public sendBotUpdate(
+    botId: string,
     position: Vector3,
     rotation: Quaternion,
     lightsaberPosition: Vector3,
     lightsaberRotation: Quaternion,
     isAttacking: boolean,
-    isBlocking: boolean
+    isBlocking: boolean,
+    stance: number = 1,
+    attackType: AttackType = 'light'
   ): void {
-    if (!this.roomId) return;
+    if (!this.roomId || !this.isHost) return;
     
-    this.socket.emit("player_update", {
-      roomId: this.roomId,
+    const update = {
+      timestamp: this.getServerTime(),
       position: { x: position.x, y: position.y, z: position.z },
       rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
       lightsaberPosition: { x: lightsaberPosition.x, y: lightsaberPosition.y, z: lightsaberPosition.z },
       lightsaberRotation: { x: lightsaberRotation.x, y: lightsaberRotation.y, z: lightsaberRotation.z, w: lightsaberRotation.w },
       isAttacking,
-      isBlocking
-    });
+      isBlocking,
+      stance,
+      attackType,
+      botId
+    };
+    
+    if (this.wireEncoding === "binary") {
+      const data = encodeBotUpdate(update);
+      this.bytesSent += data.byteLength;
+      this.socket.emit("player_update_bin", this.roomId, data);
+    } else {
+      const payload = { roomId: this.roomId, ...update };
+      this.bytesSent += JSON.stringify(payload).length;
+      this.socket.emit("player_update", payload);
+    }
   }
 
-  // Send player hit event
-  public sendPlayerHit(targetId: string, damage: number): void {
-    if (!this.roomId) return;
+  // Report a hit; the server validates it and decides the damage.
+  // The host passes botId when one of the bots it simulates landed the hit.
+  public sendPlayerHit(targetId: string, botId?: string): void {
+    if (!this.roomId || this.isSpectator) return;
     
     this.socket.emit("player_hit", {
       roomId: this.roomId,
       targetId,
-      damage
+      botId
     });
   }
 
+  // Say something to everyone in the room, spectators included
+  public sendChat(text: string): void {
+    const trimmed = text.trim();
+    if (!this.roomId || trimmed.length === 0) return;
+    this.socket.emit("chat_message", { roomId: this.roomId, text: trimmed.slice(0, MAX_CHAT_LENGTH) });
+  }
+
+  // Quick-chat emote; other players also see our model gesture
+  public sendEmote(emote: Emote): void {
+    if (!this.roomId) return;
+    this.socket.emit("chat_message", { roomId: this.roomId, emote });
+  }
+
+  // Host only: bot fill and difficulty for our room
+  public updateBotSettings(settings: { fillWithBots?: boolean; difficulty?: BotDifficulty }): void {
+    if (this.isHost && this.roomId) {
+      this.socket.emit("update_bot_settings", { roomId: this.roomId, ...settings });
+    }
+  }
+
   // Register event handlers
   public onRoomCreated(callback: (data: RoomCreatedEvent) => void): void {
     this.onRoomCreatedCallback = callback;
   }
 
-  public onPlayerJoined(callback: (data: PlayerJoinedEvent) => void): void {
-    this.onPlayerJoinedCallback = callback;
+  // Returns an unsubscribe function
+  public onPlayerJoined(listener: (data: PlayerJoinedEvent) => void): () => void {
+    this.playerJoinedListeners.add(listener);
+    return () => {
+      this.playerJoinedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onGameStarted(listener: () => void): () => void {
+    this.gameStartedListeners.add(listener);
+    return () => {
+      this.gameStartedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onPlayerUpdated(listener: (data: PlayerUpdatedEvent) => void): () => void {
+    this.playerUpdatedListeners.add(listener);
+    return () => {
+      this.playerUpdatedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onPlayerDamaged(listener: (data: PlayerDamagedEvent) => void): () => void {
+    this.playerDamagedListeners.add(listener);
+    return () => {
+      this.playerDamagedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onPlayerDefeated(listener: (playerId: string, winnerId: string) => void): () => void {
+    this.playerDefeatedListeners.add(listener);
+    return () => {
+      this.playerDefeatedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onPlayerLeft(listener: (data: PlayerLeftEvent) => void): () => void {
+    this.playerLeftListeners.add(listener);
+    return () => {
+      this.playerLeftListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onPlayerDisconnected(listener: (data: PlayerDisconnectedEvent) => void): () => void {
+    this.playerDisconnectedListeners.add(listener);
+    return () => {
+      this.playerDisconnectedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onPlayerReconnected(listener: (data: PlayerReconnectedEvent) => void): () => void {
+    this.playerReconnectedListeners.add(listener);
+    return () => {
+      this.playerReconnectedListeners.delete(listener);
+    };
+  }
+
+  public onSessionResumed(callback: (data: SessionResumedEvent) => void): void {
+    this.onSessionResumedCallback = callback;
   }
 
-  public onGameStarted(callback: () => void): void {
-    this.onGameStartedCallback = callback;
+  public onSpectateStarted(callback: (data: SpectateStartedEvent) => void): void {
+    this.onSpectateStartedCallback = callback;
   }
 
-  public onPlayerUpdated(callback: (data: PlayerUpdatedEvent) => void): void {
-    this.onPlayerUpdatedCallback = callback;
+  public onSpectatorsUpdated(callback: (count: number) => void): void {
+    this.onSpectatorsUpdatedCallback = callback;
   }
 
-  public onPlayerDamaged(callback: (data: PlayerDamagedEvent) => void): void {
-    this.onPlayerDamagedCallback = callback;
+  // Returns an unsubscribe function
+  public onHostChanged(listener: (data: HostChangedEvent) => void): () => void {
+    this.hostChangedListeners.add(listener);
+    return () => {
+      this.hostChangedListeners.delete(listener);
+    };
   }
 
-  public onPlayerDefeated(callback: (playerId: string, winnerId: string) => void): void {
-    this.onPlayerDefeatedCallback = callback;
+  public onProfile(callback: (data: ProfileEvent) => void): void {
+    this.onProfileCallback = callback;
   }
 
-  public onHostDisconnected(callback: () => void): void {
-    this.onHostDisconnectedCallback = callback;
+  public onQueueJoined(callback: (data: QueueJoinedEvent) => void): void {
+    this.onQueueJoinedCallback = callback;
   }
 
-  public onError(callback: (message: string) => void): void {
+  public onQueueLeft(callback: () => void): void {
+    this.onQueueLeftCallback = callback;
+  }
+
+  public onMatchFound(callback: (data: MatchFoundEvent) => void): void {
+    this.onMatchFoundCallback = callback;
+  }
+
+  public onRatingUpdated(callback: (data: RatingUpdatedEvent) => void): void {
+    this.onRatingUpdatedCallback = callback;
+  }
+
+  public onBotSettings(callback: (data: BotSettingsEvent) => void): void {
+    this.onBotSettingsCallback = callback;
+  }
+
+  // Returns an unsubscribe function
+  public onTeamChanged(listener: (data: TeamChangedEvent) => void): () => void {
+    this.teamChangedListeners.add(listener);
+    return () => {
+      this.teamChangedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onRoundStarted(listener: (data: RoundStartedEvent) => void): () => void {
+    this.roundStartedListeners.add(listener);
+    return () => {
+      this.roundStartedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onSuddenDeath(listener: (roundNumber: number) => void): () => void {
+    this.suddenDeathListeners.add(listener);
+    return () => {
+      this.suddenDeathListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onRoundEnded(listener: (data: RoundEndedEvent) => void): () => void {
+    this.roundEndedListeners.add(listener);
+    return () => {
+      this.roundEndedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onMatchEnded(listener: (data: MatchEndedEvent) => void): () => void {
+    this.matchEndedListeners.add(listener);
+    return () => {
+      this.matchEndedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onRematchUpdated(listener: (data: RematchUpdatedEvent) => void): () => void {
+    this.rematchUpdatedListeners.add(listener);
+    return () => {
+      this.rematchUpdatedListeners.delete(listener);
+    };
+  }
+
+  // Returns an unsubscribe function
+  public onMatchReset(listener: (data: MatchResetEvent) => void): () => void {
+    this.matchResetListeners.add(listener);
+    return () => {
+      this.matchResetListeners.delete(listener);
+    };
+  }
+
+  public onHitRejected(callback: (data: HitRejectedEvent) => void): void {
+    this.onHitRejectedCallback = callback;
+  }
+
+  public onError(callback: (message: string, code?: ErrorCode) => void): void {
     this.onErrorCallback = callback;
   }
 
@@ -234,16 +961,120 @@ export class NetworkManager {
     return this.isHost;
   }
 
+  public isSpectating(): boolean {
+    return this.isSpectator;
+  }
+
+  public getGameMode(): GameMode {
+    return this.gameMode;
+  }
+
+  public getBotSettings(): BotSettingsEvent {
+    return this.botSettings;
+  }
+
+  // Bots we have to simulate: all of the room's bots while we are host
+  public getControlledBots(): NetworkPlayer[] {
+    if (!this.isHost) return [];
+    return Array.from(this.remotePlayers.values()).filter(player => player.isBot);
+  }
+
+  public getTeam(): Team | null {
+    return this.team;
+  }
+
+  // Kills, deaths and rounds won by player and team, or null before the first round
+  public getScoreboard(): Scoreboard | null {
+    return this.scoreboard;
+  }
+
+  public getSpectatorCount(): number {
+    return this.spectatorCount;
+  }
+
+  // null until the server has sent our profile
+  public getProfile(): ProfileEvent | null {
+    return this.profile;
+  }
+
+  public isQueued(): boolean {
+    return this.queuedAt !== null;
+  }
+
+  // Server time we entered the matchmaking queue, or null when not queued
+  public getQueuedAt(): number | null {
+    return this.queuedAt;
+  }
+
   public getRoomId(): string | null {
     return this.roomId;
   }
 
+  // Stable across reconnects; falls back to the socket id until the session arrives
   public getPlayerId(): string {
-    return this.socket.id;
+    return this.playerId ?? this.socket.id;
+  }
+
+  // Network timing
+  public getRtt(): number {
+    return this.clockSync.getRtt();
+  }
+
+  public getJitter(): number {
+    return this.clockSync.getJitter();
+  }
+
+  public getClockOffset(): number {
+    return this.clockSync.getOffset();
+  }
+
+  public getServerTime(): number {
+    return this.clockSync.getServerTime();
+  }
+
+  // Convert a server timestamp to the local performance.now() clock
+  public toLocalTime(serverTime: number): number {
+    return this.clockSync.toLocalTime(serverTime);
+  }
+
+  public getNetworkStats(): NetworkStats {
+    return {
+      ...this.clockSync.getStats(),
+      encoding: this.wireEncoding,
+      tickRate: this.tickRate,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived
+    };
+  }
+
+  // Subscribe to stats updates; returns an unsubscribe function
+  public onNetworkStats(listener: (stats: NetworkStats) => void): () => void {
+    this.statsListeners.add(listener);
+    return () => {
+      this.statsListeners.delete(listener);
+    };
+  }
+
+  // Chat lines and emotes for our room; returns an unsubscribe function
+  public onChatMessage(listener: (message: ChatMessageEvent) => void): () => void {
+    this.chatListeners.add(listener);
+    return () => {
+      this.chatListeners.delete(listener);
+    };
+  }
+
+  // Operator announcements; returns an unsubscribe function
+  public onServerMessage(listener: (message: ServerMessageEvent) => void): () => void {
+    this.serverMessageListeners.add(listener);
+    return () => {
+      this.serverMessageListeners.delete(listener);
+    };
   }
 
   // Cleanup
   public disconnect(): void {
+    this.stopClockSync();
+    this.sessionToken = null;
     this.socket.disconnect();
   }
 
@@ -251,9 +1082,10 @@ export class NetworkManager {
   public checkAndJoinFromUrl(): boolean {
     const params = new URLSearchParams(window.location.search);
     const roomId = params.get('room');
+    const inviteToken = params.get('invite') ?? undefined;
     
     if (roomId) {
-      this.joinRoom(roomId);
+      this.joinRoom(roomId, { inviteToken });
       return true;
     }
     
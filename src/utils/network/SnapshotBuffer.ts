@@ -0,0 +1,122 @@
+import { Vector3, Quaternion } from "three";
+
+export interface PoseSnapshot {
+  time: number; // ms
+  position: Vector3;
+  rotation: Quaternion;
+  lightsaberPosition: Vector3;
+  lightsaberRotation: Quaternion;
+  isAttacking: boolean;
+  isBlocking: boolean;
+}
+
+export interface SnapshotBufferOptions {
+  interpolationDelay?: number; // ms behind the newest data we render
+  maxExtrapolation?: number; // ms we keep predicting once packets stop
+  maxSnapshots?: number;
+}
+
+/**
+ * Timestamped pose buffer for a remote entity. Sampling is driven by time
+ * rather than by frame count, so playback looks the same at any framerate.
+ */
+export class SnapshotBuffer {
+  private snapshots: PoseSnapshot[] = [];
+  private interpolationDelay: number;
+  private maxExtrapolation: number;
+  private maxSnapshots: number;
+
+  constructor(options: SnapshotBufferOptions = {}) {
+    this.interpolationDelay = options.interpolationDelay ?? 100;
+    this.maxExtrapolation = options.maxExtrapolation ?? 250;
+    this.maxSnapshots = options.maxSnapshots ?? 32;
+  }
+
+  public push(snapshot: PoseSnapshot): void {
+    // Drop out-of-order packets; they would make playback jump backwards
+    const newest = this.snapshots[this.snapshots.length - 1];
+    if (newest && snapshot.time <= newest.time) return;
+
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > this.maxSnapshots) {
+      this.snapshots.shift();
+    }
+  }
+
+  public clear(): void {
+    this.snapshots = [];
+  }
+
+  public getInterpolationDelay(): number {
+    return this.interpolationDelay;
+  }
+
+  /**
+   * Write the pose to render at `now` into `out`. Returns false while empty.
+   */
+  public sample(now: number, out: PoseSnapshot): boolean {
+    if (this.snapshots.length === 0) return false;
+
+    const renderTime = now - this.interpolationDelay;
+    const first = this.snapshots[0];
+    const last = this.snapshots[this.snapshots.length - 1];
+
+    // Not enough history yet - hold the oldest pose
+    if (renderTime <= first.time || this.snapshots.length === 1) {
+      this.copyInto(this.snapshots.length === 1 ? last : first, out);
+      out.time = renderTime;
+      return true;
+    }
+
+    // Packets are late - extrapolate position along the last known velocity
+    if (renderTime > last.time) {
+      const previous = this.snapshots[this.snapshots.length - 2];
+      const span = last.time - previous.time;
+      const ahead = Math.min(renderTime - last.time, this.maxExtrapolation);
+      this.copyInto(last, out);
+      if (span > 0) {
+        const t = ahead / span;
+        out.position.addScaledVector(new Vector3().subVectors(last.position, previous.position), t);
+        out.lightsaberPosition.addScaledVector(
+          new Vector3().subVectors(last.lightsaberPosition, previous.lightsaberPosition),
+          t
+        );
+      }
+      out.time = renderTime;
+      return true;
+    }
+
+    // Interpolate between the two snapshots bracketing the render time
+    for (let i = this.snapshots.length - 1; i > 0; i--) {
+      const older = this.snapshots[i - 1];
+      const newer = this.snapshots[i];
+      if (older.time <= renderTime && renderTime <= newer.time) {
+        const span = newer.time - older.time;
+        const t = span > 0 ? (renderTime - older.time) / span : 1;
+        out.time = renderTime;
+        out.position.lerpVectors(older.position, newer.position, t);
+        out.rotation.slerpQuaternions(older.rotation, newer.rotation, t);
+        out.lightsaberPosition.lerpVectors(older.lightsaberPosition, newer.lightsaberPosition, t);
+        out.lightsaberRotation.slerpQuaternions(older.lightsaberRotation, newer.lightsaberRotation, t);
+        out.isAttacking = older.isAttacking;
+        out.isBlocking = older.isBlocking;
+
+        // Everything before the older snapshot is no longer needed
+        if (i > 1) this.snapshots.splice(0, i - 1);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private copyInto(source: PoseSnapshot, out: PoseSnapshot): void {
+    out.time = source.time;
+    out.position.copy(source.position);
+    out.rotation.copy(source.rotation);
+    out.lightsaberPosition.copy(source.lightsaberPosition);
+    out.lightsaberRotation.copy(source.lightsaberRotation);
+    out.isAttacking = source.isAttacking;
+    out.isBlocking = source.isBlocking;
+  }
+}
@@ -0,0 +1,67 @@
+import type { PlayerUpdatedEvent, WorldSnapshotEvent } from "./protocol";
+
+// A client's picture of the world after some snapshot: the latest pose it
+// was sent for each player, by player id
+export type SnapshotBaseline = ReadonlyMap<string, PlayerUpdatedEvent>;
+
+// Ticks kept as baselines. The server only deltas against fairly recent
+// acks (MAX_SNAPSHOT_BASELINE_AGE), so this comfortably covers them.
+const SNAPSHOT_HISTORY_SIZE = 64;
+
+// Oldest acknowledged tick the server will still delta against
+export const MAX_SNAPSHOT_BASELINE_AGE = 32;
+
+/**
+ * Recent world snapshots as delta baselines. The server keeps one per
+ * socket for what it sent, the client one for what it decoded; both build
+ * each view the same way, from the snapshot's baseline plus its poses, so
+ * the two agree on every tick the client acknowledges.
+ */
+export class SnapshotHistory {
+  private views = new Map<number, SnapshotBaseline>();
+  private latestTick: number | null = null;
+  private acknowledgedTick: number | null = null;
+
+  // Remember the view after `snapshot` and return it
+  public record(snapshot: WorldSnapshotEvent): SnapshotBaseline {
+    const baseline = snapshot.baselineTick === undefined ? undefined : this.views.get(snapshot.baselineTick);
+    const view = new Map(baseline);
+    snapshot.players.forEach(pose => view.set(pose.playerId, pose));
+
+    this.views.set(snapshot.tick, view);
+    this.latestTick = snapshot.tick;
+    if (this.views.size > SNAPSHOT_HISTORY_SIZE) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      this.views.delete(this.views.keys().next().value);
+    }
+    return view;
+  }
+
+  public get(tick: number): SnapshotBaseline | undefined {
+    return this.views.get(tick);
+  }
+
+  // The view after the most recent snapshot, or undefined before the first
+  public latest(): SnapshotBaseline | undefined {
+    return this.latestTick === null ? undefined : this.views.get(this.latestTick);
+  }
+
+  // Server side: the client has decoded `tick`. Acks only move forwards.
+  public acknowledge(tick: number): void {
+    if (this.acknowledgedTick !== null && tick <= this.acknowledgedTick) return;
+    if (this.views.has(tick)) this.acknowledgedTick = tick;
+  }
+
+  // The acknowledged view to delta the snapshot for `tick` against, if it is recent enough
+  public baselineFor(tick: number): { tick: number; poses: SnapshotBaseline } | null {
+    if (this.acknowledgedTick === null || tick - this.acknowledgedTick > MAX_SNAPSHOT_BASELINE_AGE) return null;
+    const poses = this.views.get(this.acknowledgedTick);
+    return poses ? { tick: this.acknowledgedTick, poses } : null;
+  }
+
+  public clear(): void {
+    this.views.clear();
+    this.latestTick = null;
+    this.acknowledgedTick = null;
+  }
+}
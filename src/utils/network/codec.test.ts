@@ -0,0 +1,95 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+// Runtime imports carry .js so the compiled tests run under plain Node
+import { decodeWorldSnapshot, encodeWorldSnapshot } from "./codec.js";
+import { SnapshotHistory } from "./SnapshotHistory.js";
+import type { PlayerUpdatedEvent, WorldSnapshotEvent } from "./protocol";
+
+const pose = (playerId: string, timestamp: number, x: number, isBlocking: boolean = false): PlayerUpdatedEvent => ({
+  playerId,
+  timestamp,
+  position: { x, y: 0, z: -2 },
+  rotation: { x: 0, y: 0.3826834, z: 0, w: 0.9238795 },
+  lightsaberPosition: { x: x + 0.4, y: 1.3, z: -1.6 },
+  lightsaberRotation: { x: 0.1, y: 0.2, z: 0.3, w: 0.9273618 },
+  isAttacking: false,
+  isBlocking
+});
+
+// What the client ends up with for a snapshot sent in full
+const decodeFull = (snapshot: WorldSnapshotEvent): WorldSnapshotEvent =>
+  decodeWorldSnapshot(encodeWorldSnapshot(snapshot, null), () => undefined)!;
+
+describe("world snapshot deltas", () => {
+  it("decodes a delta to the same poses as the full snapshot", () => {
+    const server = new SnapshotHistory();
+    const client = new SnapshotHistory();
+    const alice = pose("alice", 1000, 1);
+    const bob = pose("bob", 1000, -3);
+
+    // First snapshot: nothing acknowledged yet, so everything goes in full
+    const first: WorldSnapshotEvent = { tick: 1, serverTime: 1000, players: [alice, bob] };
+    assert.equal(server.baselineFor(1), null);
+    const firstDecoded = decodeWorldSnapshot(encodeWorldSnapshot(first, null), tick => client.get(tick));
+    assert.ok(firstDecoded);
+    server.record(first);
+    client.record(firstDecoded);
+    server.acknowledge(firstDecoded.tick);
+
+    // Alice steps forward into a guard; only the changed fields should travel
+    const second: WorldSnapshotEvent = { tick: 2, serverTime: 1033, players: [pose("alice", 1033, 1.5, true)] };
+    const baseline = server.baselineFor(2);
+    assert.ok(baseline);
+    const delta = encodeWorldSnapshot({ ...second, baselineTick: baseline.tick }, baseline);
+    const decoded = decodeWorldSnapshot(delta, tick => client.get(tick));
+
+    assert.ok(decoded);
+    assert.equal(decoded.baselineTick, 1);
+    assert.deepEqual(decoded.players, decodeFull(second).players);
+    assert.ok(delta.byteLength < encodeWorldSnapshot(second, null).byteLength);
+
+    // Both sides now hold the same view: Alice's new pose, Bob's old one
+    const clientView = client.record(decoded);
+    assert.equal(clientView.get("bob")?.position.x, decodeFull(first).players[1].position.x);
+    assert.deepEqual(clientView.get("alice"), decoded.players[0]);
+  });
+
+  it("sends a pose that matches the baseline as just its id and timestamp", () => {
+    const bob = pose("bob", 1000, -3);
+    const baseline = { tick: 4, poses: new Map([["bob", bob]]) };
+    const unchanged = { tick: 5, serverTime: 1033, baselineTick: 4, players: [{ ...bob, timestamp: 1033 }] };
+
+    const decoded = decodeWorldSnapshot(encodeWorldSnapshot(unchanged, baseline), () => baseline.poses);
+    assert.ok(decoded);
+    assert.equal(decoded.players[0].timestamp, 1033);
+    assert.deepEqual(decoded.players[0].position, bob.position);
+  });
+
+  it("drops a snapshot whose baseline we no longer have", () => {
+    const alice = pose("alice", 1000, 1);
+    const baseline = { tick: 7, poses: new Map([["alice", alice]]) };
+    const snapshot = { tick: 8, serverTime: 1033, baselineTick: 7, players: [pose("alice", 1033, 2)] };
+
+    assert.equal(decodeWorldSnapshot(encodeWorldSnapshot(snapshot, baseline), () => undefined), null);
+  });
+
+  it("rejects a partial pose for a player missing from the baseline", () => {
+    const alice = pose("alice", 1000, 1);
+    const baseline = { tick: 7, poses: new Map([["alice", alice]]) };
+    const snapshot = { tick: 8, serverTime: 1033, baselineTick: 7, players: [pose("alice", 1033, 2)] };
+
+    assert.throws(
+      () => decodeWorldSnapshot(encodeWorldSnapshot(snapshot, baseline), () => new Map()),
+      RangeError
+    );
+  });
+
+  it("stops delta-encoding against an acknowledgement that has grown stale", () => {
+    const history = new SnapshotHistory();
+    history.record({ tick: 1, serverTime: 1000, players: [pose("alice", 1000, 1)] });
+    history.acknowledge(1);
+
+    assert.equal(history.baselineFor(2)?.tick, 1);
+    assert.equal(history.baselineFor(100), null);
+  });
+});
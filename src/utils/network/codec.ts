@@ -0,0 +1,534 @@
+import type { AttackType, PlayerUpdatedEvent, PlayerUpdatePayload, Quat, Vec3, WorldSnapshotEvent } from "./protocol";
+import type { InputCommand } from "./InputPredictor";
+import type { SnapshotBaseline } from "./SnapshotHistory";
+
+/**
+ * Compact binary encoding for the high-rate pose traffic: player input
+ * batches, bot poses and world snapshots. Used when both ends agree on it
+ * at connect (see HandshakeAuth.encoding); JSON stays available for
+ * debugging. All multi-byte values are little-endian.
+ *
+ *  - positions are int16 at 1/256 m (±128 m around the arena centre)
+ *  - rotations use smallest-three: the largest component is dropped and
+ *    rebuilt from the unit length, the other three get 10 bits each
+ *  - boolean state, stance and attack type share one flags byte
+ *  - an input only carries the fields that changed since its baseline:
+ *    the last input the server acknowledged for the first in a batch, the
+ *    previous input in the batch for the rest
+ *  - likewise a world snapshot only carries the players, and the fields of
+ *    each, that changed since the last snapshot the client acknowledged
+ */
+
+const MESSAGE_INPUTS = 1;
+const MESSAGE_POSE = 2;
+const MESSAGE_SNAPSHOT = 3;
+
+const POSITION_SCALE = 256;
+const SABER_OFFSET_SCALE = 1024; // the hilt stays within a couple of metres of the feet
+const DT_SCALE = 10_000; // 0.1 ms steps
+const MOVE_SCALE = 127;
+const YAW_STEPS = 65_536;
+const QUAT_BITS = 10;
+const QUAT_MAX = (1 << QUAT_BITS) - 1;
+const QUAT_RANGE = Math.SQRT1_2; // the three smallest components of a unit quaternion lie within ±1/√2
+
+const NO_BASELINE = 0xffffffff;
+
+// Which optional input fields follow the header
+const INPUT_MOVE = 1 << 0;
+const INPUT_YAW = 1 << 1;
+const INPUT_SABER_OFFSET = 1 << 2;
+const INPUT_SABER_ROTATION = 1 << 3;
+const INPUT_FLAGS = 1 << 4;
+const INPUT_ALL = INPUT_MOVE | INPUT_YAW | INPUT_SABER_OFFSET | INPUT_SABER_ROTATION | INPUT_FLAGS;
+
+// Which optional snapshot pose fields follow the player id
+const POSE_POSITION = 1 << 0;
+const POSE_ROTATION = 1 << 1;
+const POSE_SABER_POSITION = 1 << 2;
+const POSE_SABER_ROTATION = 1 << 3;
+const POSE_FLAGS = 1 << 4;
+const POSE_ALL = POSE_POSITION | POSE_ROTATION | POSE_SABER_POSITION | POSE_SABER_ROTATION | POSE_FLAGS;
+
+const FLAG_ATTACKING = 1 << 0;
+const FLAG_BLOCKING = 1 << 1;
+const FLAG_JUMP = 1 << 2;
+const FLAG_CROUCH = 1 << 3;
+const FLAG_HEAVY = 1 << 4;
+const STANCE_SHIFT = 5; // stance 1-7 in the top three bits, 0 when not sent
+
+const MAX_ID_BYTES = 255;
+const MAX_BATCH_ENTRIES = 255;
+
+// Upper bounds on the encoded sizes, for sizing buffers
+const MAX_INPUT_BYTES = 34;
+const POSE_BYTES_WITHOUT_ID = 30;
+const SNAPSHOT_HEADER_BYTES = 18;
+const SNAPSHOT_POSE_BYTES_WITHOUT_ID = 31;
+
+export type BinaryPayload = ArrayBuffer | ArrayBufferView;
+
+// ---- Quantisation ----
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+function quantizeInt16(value: number, scale: number): number {
+  return clamp(Math.round(value * scale), -32768, 32767);
+}
+
+function quantizeYaw(yaw: number): number {
+  const turn = ((yaw / (Math.PI * 2)) % 1 + 1) % 1;
+  return Math.round(turn * YAW_STEPS) % YAW_STEPS;
+}
+
+function dequantizeYaw(steps: number): number {
+  const yaw = (steps / YAW_STEPS) * Math.PI * 2;
+  return yaw > Math.PI ? yaw - Math.PI * 2 : yaw;
+}
+
+export function packQuat(q: Quat): number {
+  const components = [q.x, q.y, q.z, q.w];
+  const length = Math.hypot(q.x, q.y, q.z, q.w) || 1;
+  let largest = 0;
+  for (let i = 1; i < 4; i++) {
+    if (Math.abs(components[i]) > Math.abs(components[largest])) largest = i;
+  }
+  // q and -q are the same rotation; flip so the dropped component is positive
+  const sign = components[largest] < 0 ? -1 : 1;
+
+  let packed = largest;
+  for (let i = 0; i < 4; i++) {
+    if (i === largest) continue;
+    const normalized = (components[i] * sign) / length;
+    const steps = Math.round(((clamp(normalized, -QUAT_RANGE, QUAT_RANGE) + QUAT_RANGE) / (2 * QUAT_RANGE)) * QUAT_MAX);
+    packed = packed * (QUAT_MAX + 1) + steps;
+  }
+  return packed >>> 0;
+}
+
+export function unpackQuat(packed: number): Quat {
+  const values: number[] = [];
+  let remaining = packed;
+  for (let i = 0; i < 3; i++) {
+    const steps = remaining % (QUAT_MAX + 1);
+    remaining = Math.floor(remaining / (QUAT_MAX + 1));
+    values.unshift((steps / QUAT_MAX) * 2 * QUAT_RANGE - QUAT_RANGE);
+  }
+  const largest = remaining;
+  const sumOfSquares = values.reduce((sum, v) => sum + v * v, 0);
+  values.splice(largest, 0, Math.sqrt(Math.max(0, 1 - sumOfSquares)));
+  return { x: values[0], y: values[1], z: values[2], w: values[3] };
+}
+
+// ---- Byte buffers ----
+
+class ByteWriter {
+  private view: DataView;
+  private offset: number = 0;
+
+  constructor(capacity: number) {
+    this.view = new DataView(new ArrayBuffer(capacity));
+  }
+
+  u8(value: number): void { this.view.setUint8(this.offset, value); this.offset += 1; }
+  i8(value: number): void { this.view.setInt8(this.offset, value); this.offset += 1; }
+  u16(value: number): void { this.view.setUint16(this.offset, value, true); this.offset += 2; }
+  i16(value: number): void { this.view.setInt16(this.offset, value, true); this.offset += 2; }
+  u32(value: number): void { this.view.setUint32(this.offset, value, true); this.offset += 4; }
+  f64(value: number): void { this.view.setFloat64(this.offset, value, true); this.offset += 8; }
+
+  bytes(data: Uint8Array): void {
+    new Uint8Array(this.view.buffer, this.offset, data.length).set(data);
+    this.offset += data.length;
+  }
+
+  finish(): ArrayBuffer {
+    return this.view.buffer.slice(0, this.offset) as ArrayBuffer;
+  }
+}
+
+// Reads past the end throw a RangeError, which the decoders let escape
+class ByteReader {
+  private view: DataView;
+  private offset: number = 0;
+
+  constructor(data: BinaryPayload) {
+    this.view = data instanceof ArrayBuffer
+      ? new DataView(data)
+      : new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  u8(): number { const v = this.view.getUint8(this.offset); this.offset += 1; return v; }
+  i8(): number { const v = this.view.getInt8(this.offset); this.offset += 1; return v; }
+  u16(): number { const v = this.view.getUint16(this.offset, true); this.offset += 2; return v; }
+  i16(): number { const v = this.view.getInt16(this.offset, true); this.offset += 2; return v; }
+  u32(): number { const v = this.view.getUint32(this.offset, true); this.offset += 4; return v; }
+  f64(): number { const v = this.view.getFloat64(this.offset, true); this.offset += 8; return v; }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.view.byteLength) throw new RangeError("Read past end of message");
+    const data = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return data;
+  }
+}
+
+function writeVec3(writer: ByteWriter, v: Vec3, scale: number): void {
+  writer.i16(quantizeInt16(v.x, scale));
+  writer.i16(quantizeInt16(v.y, scale));
+  writer.i16(quantizeInt16(v.z, scale));
+}
+
+function readVec3(reader: ByteReader, scale: number): Vec3 {
+  return { x: reader.i16() / scale, y: reader.i16() / scale, z: reader.i16() / scale };
+}
+
+function packFlags(state: {
+  isAttacking: boolean;
+  isBlocking: boolean;
+  jump?: boolean;
+  crouch?: boolean;
+  stance?: number;
+  attackType?: AttackType;
+}): number {
+  let flags = 0;
+  if (state.isAttacking) flags |= FLAG_ATTACKING;
+  if (state.isBlocking) flags |= FLAG_BLOCKING;
+  if (state.jump) flags |= FLAG_JUMP;
+  if (state.crouch) flags |= FLAG_CROUCH;
+  if (state.attackType === "heavy") flags |= FLAG_HEAVY;
+  if (state.stance !== undefined) flags |= (state.stance & 0b111) << STANCE_SHIFT;
+  return flags;
+}
+
+function unpackFlags(flags: number) {
+  const stance = flags >> STANCE_SHIFT;
+  return {
+    isAttacking: (flags & FLAG_ATTACKING) !== 0,
+    isBlocking: (flags & FLAG_BLOCKING) !== 0,
+    jump: (flags & FLAG_JUMP) !== 0,
+    crouch: (flags & FLAG_CROUCH) !== 0,
+    attackType: ((flags & FLAG_HEAVY) !== 0 ? "heavy" : "light") as AttackType,
+    stance: stance === 0 ? undefined : stance
+  };
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// ---- Input commands ----
+
+// The quantised fields of an input, for comparing against the baseline
+function quantizedInputFields(command: InputCommand) {
+  return {
+    move: [Math.round(clamp(command.moveX, -1, 1) * MOVE_SCALE), Math.round(clamp(command.moveZ, -1, 1) * MOVE_SCALE)],
+    yaw: quantizeYaw(command.yaw),
+    saberOffset: [
+      quantizeInt16(command.saberOffset.x, SABER_OFFSET_SCALE),
+      quantizeInt16(command.saberOffset.y, SABER_OFFSET_SCALE),
+      quantizeInt16(command.saberOffset.z, SABER_OFFSET_SCALE)
+    ],
+    saberRotation: packQuat(command.saberRotation),
+    flags: packFlags(command)
+  };
+}
+
+// Write an input, leaving out whatever matches `baseline`
+function writeInput(writer: ByteWriter, command: InputCommand, baseline: InputCommand | null): void {
+  const fields = quantizedInputFields(command);
+  let mask = INPUT_ALL;
+  if (baseline) {
+    const base = quantizedInputFields(baseline);
+    mask = 0;
+    if (fields.move[0] !== base.move[0] || fields.move[1] !== base.move[1]) mask |= INPUT_MOVE;
+    if (fields.yaw !== base.yaw) mask |= INPUT_YAW;
+    if (fields.saberOffset.some((v, i) => v !== base.saberOffset[i])) mask |= INPUT_SABER_OFFSET;
+    if (fields.saberRotation !== base.saberRotation) mask |= INPUT_SABER_ROTATION;
+    if (fields.flags !== base.flags) mask |= INPUT_FLAGS;
+  }
+
+  writer.u32(command.sequence);
+  writer.u32(baseline ? baseline.sequence : NO_BASELINE);
+  writer.u8(mask);
+  writer.f64(command.timestamp ?? NaN);
+  writer.u16(clamp(Math.round(command.dt * DT_SCALE), 0, 0xffff));
+  if (mask & INPUT_MOVE) {
+    writer.i8(fields.move[0]);
+    writer.i8(fields.move[1]);
+  }
+  if (mask & INPUT_YAW) writer.u16(fields.yaw);
+  if (mask & INPUT_SABER_OFFSET) fields.saberOffset.forEach(v => writer.i16(v));
+  if (mask & INPUT_SABER_ROTATION) writer.u32(fields.saberRotation);
+  if (mask & INPUT_FLAGS) writer.u8(fields.flags);
+}
+
+// Null when the input was encoded against a baseline we no longer have
+function readInput(
+  reader: ByteReader,
+  findBaseline: (sequence: number) => InputCommand | undefined
+): InputCommand | null {
+  const sequence = reader.u32();
+  const baselineSequence = reader.u32();
+  const mask = reader.u8();
+  const timestamp = reader.f64();
+  const dt = reader.u16() / DT_SCALE;
+
+  let baseline: InputCommand | undefined;
+  if (baselineSequence !== NO_BASELINE) {
+    baseline = findBaseline(baselineSequence);
+    if (!baseline) return null;
+  } else if (mask !== INPUT_ALL) {
+    throw new RangeError("Partial input without a baseline");
+  }
+
+  const command: InputCommand = {
+    ...baseline,
+    sequence,
+    timestamp: Number.isNaN(timestamp) ? undefined : timestamp,
+    dt
+  };
+  if (mask & INPUT_MOVE) {
+    command.moveX = reader.i8() / MOVE_SCALE;
+    command.moveZ = reader.i8() / MOVE_SCALE;
+  }
+  if (mask & INPUT_YAW) command.yaw = dequantizeYaw(reader.u16());
+  if (mask & INPUT_SABER_OFFSET) command.saberOffset = readVec3(reader, SABER_OFFSET_SCALE);
+  if (mask & INPUT_SABER_ROTATION) command.saberRotation = unpackQuat(reader.u32());
+  if (mask & INPUT_FLAGS) {
+    const flags = unpackFlags(reader.u8());
+    command.isAttacking = flags.isAttacking;
+    command.isBlocking = flags.isBlocking;
+    command.jump = flags.jump;
+    command.crouch = flags.crouch;
+    command.stance = flags.stance;
+    command.attackType = flags.attackType;
+  }
+  return command;
+}
+
+/**
+ * Encode a batch of inputs, oldest first. The first is sent as a delta
+ * against `baseline`, the last input the server acknowledged; each later
+ * one against the input before it.
+ */
+export function encodeInputBatch(commands: InputCommand[], baseline: InputCommand | null): ArrayBuffer {
+  const batch = commands.slice(0, MAX_BATCH_ENTRIES);
+  const writer = new ByteWriter(2 + MAX_INPUT_BYTES * batch.length);
+  writer.u8(MESSAGE_INPUTS);
+  writer.u8(batch.length);
+  batch.forEach((command, i) => writeInput(writer, command, i === 0 ? baseline : batch[i - 1]));
+  return writer.finish();
+}
+
+/**
+ * Decode a batch of inputs. Returns null when the first was encoded against
+ * a baseline we no longer have, since every later one builds on it. Throws
+ * on a truncated message.
+ */
+export function decodeInputBatch(
+  data: BinaryPayload,
+  findBaseline: (sequence: number) => InputCommand | undefined
+): InputCommand[] | null {
+  const reader = new ByteReader(data);
+  if (reader.u8() !== MESSAGE_INPUTS) throw new RangeError("Not an input message");
+
+  const count = reader.u8();
+  const commands: InputCommand[] = [];
+  for (let i = 0; i < count; i++) {
+    const previous = commands[commands.length - 1];
+    const command = readInput(reader, sequence =>
+      previous?.sequence === sequence ? previous : findBaseline(sequence)
+    );
+    if (!command) return null;
+    commands.push(command);
+  }
+  return commands;
+}
+
+// The command exactly as the server will see it after a binary round trip.
+// Prediction has to replay these values, not the full-precision originals.
+export function quantizeInput(command: InputCommand): InputCommand {
+  const writer = new ByteWriter(MAX_INPUT_BYTES);
+  writeInput(writer, command, null);
+  return readInput(new ByteReader(writer.finish()), () => undefined);
+}
+
+// ---- Poses ----
+
+interface PoseFields {
+  timestamp: number;
+  position: Vec3;
+  rotation: Quat;
+  lightsaberPosition: Vec3;
+  lightsaberRotation: Quat;
+  isAttacking: boolean;
+  isBlocking: boolean;
+  stance?: number;
+  attackType?: AttackType;
+}
+
+function writePose(writer: ByteWriter, idBytes: Uint8Array, pose: PoseFields): void {
+  writer.f64(pose.timestamp);
+  writer.u8(idBytes.length);
+  writer.bytes(idBytes);
+  writeVec3(writer, pose.position, POSITION_SCALE);
+  writer.u32(packQuat(pose.rotation));
+  writeVec3(writer, pose.lightsaberPosition, POSITION_SCALE);
+  writer.u32(packQuat(pose.lightsaberRotation));
+  writer.u8(packFlags(pose));
+}
+
+function readPose(reader: ByteReader): { id: string; pose: PoseFields } {
+  const timestamp = reader.f64();
+  const id = textDecoder.decode(reader.bytes(reader.u8()));
+  const position = readVec3(reader, POSITION_SCALE);
+  const rotation = unpackQuat(reader.u32());
+  const lightsaberPosition = readVec3(reader, POSITION_SCALE);
+  const lightsaberRotation = unpackQuat(reader.u32());
+  const { isAttacking, isBlocking, stance, attackType } = unpackFlags(reader.u8());
+  return {
+    id,
+    pose: { timestamp, position, rotation, lightsaberPosition, lightsaberRotation, isAttacking, isBlocking, stance, attackType }
+  };
+}
+
+const encodeId = (id: string): Uint8Array => textEncoder.encode(id).subarray(0, MAX_ID_BYTES);
+
+// Host -> server pose of a bot; the room id travels alongside the buffer
+export function encodeBotUpdate(update: Omit<PlayerUpdatePayload, "roomId">): ArrayBuffer {
+  const idBytes = encodeId(update.botId);
+  const writer = new ByteWriter(1 + POSE_BYTES_WITHOUT_ID + idBytes.length);
+  writer.u8(MESSAGE_POSE);
+  writePose(writer, idBytes, { ...update, timestamp: update.timestamp ?? NaN });
+  return writer.finish();
+}
+
+export function decodeBotUpdate(roomId: string, data: BinaryPayload): PlayerUpdatePayload {
+  const reader = new ByteReader(data);
+  if (reader.u8() !== MESSAGE_POSE) throw new RangeError("Not a pose message");
+
+  const { id, pose } = readPose(reader);
+  return {
+    roomId,
+    botId: id,
+    ...pose,
+    timestamp: Number.isNaN(pose.timestamp) ? undefined : pose.timestamp
+  };
+}
+
+// ---- World snapshots ----
+
+// The quantised fields of a snapshot pose, for comparing against the baseline
+function quantizedPoseFields(pose: PlayerUpdatedEvent) {
+  const vec3 = (v: Vec3) => [quantizeInt16(v.x, POSITION_SCALE), quantizeInt16(v.y, POSITION_SCALE), quantizeInt16(v.z, POSITION_SCALE)];
+  return {
+    position: vec3(pose.position),
+    rotation: packQuat(pose.rotation),
+    lightsaberPosition: vec3(pose.lightsaberPosition),
+    lightsaberRotation: packQuat(pose.lightsaberRotation),
+    flags: packFlags(pose)
+  };
+}
+
+// Write a player's pose, leaving out whatever matches their pose in `baseline`
+function writeSnapshotPose(writer: ByteWriter, idBytes: Uint8Array, pose: PlayerUpdatedEvent, baseline: PlayerUpdatedEvent | undefined): void {
+  const fields = quantizedPoseFields(pose);
+  let mask = POSE_ALL;
+  if (baseline) {
+    const base = quantizedPoseFields(baseline);
+    mask = 0;
+    if (fields.position.some((v, i) => v !== base.position[i])) mask |= POSE_POSITION;
+    if (fields.rotation !== base.rotation) mask |= POSE_ROTATION;
+    if (fields.lightsaberPosition.some((v, i) => v !== base.lightsaberPosition[i])) mask |= POSE_SABER_POSITION;
+    if (fields.lightsaberRotation !== base.lightsaberRotation) mask |= POSE_SABER_ROTATION;
+    if (fields.flags !== base.flags) mask |= POSE_FLAGS;
+  }
+
+  writer.f64(pose.timestamp);
+  writer.u8(idBytes.length);
+  writer.bytes(idBytes);
+  writer.u8(mask);
+  if (mask & POSE_POSITION) fields.position.forEach(v => writer.i16(v));
+  if (mask & POSE_ROTATION) writer.u32(fields.rotation);
+  if (mask & POSE_SABER_POSITION) fields.lightsaberPosition.forEach(v => writer.i16(v));
+  if (mask & POSE_SABER_ROTATION) writer.u32(fields.lightsaberRotation);
+  if (mask & POSE_FLAGS) writer.u8(fields.flags);
+}
+
+function readSnapshotPose(reader: ByteReader, baseline: SnapshotBaseline | undefined): PlayerUpdatedEvent {
+  const timestamp = reader.f64();
+  const playerId = textDecoder.decode(reader.bytes(reader.u8()));
+  const mask = reader.u8();
+
+  const base = baseline?.get(playerId);
+  if (!base && mask !== POSE_ALL) throw new RangeError("Partial pose without a baseline");
+
+  const pose = { ...base, playerId, timestamp } as PlayerUpdatedEvent;
+  if (mask & POSE_POSITION) pose.position = readVec3(reader, POSITION_SCALE);
+  if (mask & POSE_ROTATION) pose.rotation = unpackQuat(reader.u32());
+  if (mask & POSE_SABER_POSITION) pose.lightsaberPosition = readVec3(reader, POSITION_SCALE);
+  if (mask & POSE_SABER_ROTATION) pose.lightsaberRotation = unpackQuat(reader.u32());
+  if (mask & POSE_FLAGS) {
+    const { isAttacking, isBlocking } = unpackFlags(reader.u8());
+    pose.isAttacking = isAttacking;
+    pose.isBlocking = isBlocking;
+  }
+  return pose;
+}
+
+/**
+ * Server -> client: the poses that changed since `baseline`, the last
+ * snapshot this client acknowledged, each sent as a delta against that
+ * player's pose there. Without a baseline every pose goes out in full.
+ */
+export function encodeWorldSnapshot(
+  snapshot: WorldSnapshotEvent,
+  baseline: { tick: number; poses: SnapshotBaseline } | null
+): ArrayBuffer {
+  const players = snapshot.players.slice(0, MAX_BATCH_ENTRIES);
+  const ids = players.map(player => encodeId(player.playerId));
+  const idLength = ids.reduce((sum, id) => sum + id.length, 0);
+  const writer = new ByteWriter(SNAPSHOT_HEADER_BYTES + SNAPSHOT_POSE_BYTES_WITHOUT_ID * players.length + idLength);
+  writer.u8(MESSAGE_SNAPSHOT);
+  writer.u32(snapshot.tick);
+  writer.u32(baseline ? baseline.tick : NO_BASELINE);
+  writer.f64(snapshot.serverTime);
+  writer.u8(players.length);
+  players.forEach((player, i) => writeSnapshotPose(writer, ids[i], player, baseline?.poses.get(player.playerId)));
+  return writer.finish();
+}
+
+/**
+ * Decode a world snapshot, filling unsent fields in from the baseline it
+ * names. Returns null when we no longer have that baseline. Throws on a
+ * truncated message.
+ */
+export function decodeWorldSnapshot(
+  data: BinaryPayload,
+  findBaseline: (tick: number) => SnapshotBaseline | undefined
+): WorldSnapshotEvent | null {
+  const reader = new ByteReader(data);
+  if (reader.u8() !== MESSAGE_SNAPSHOT) throw new RangeError("Not a snapshot message");
+
+  const tick = reader.u32();
+  const baselineTick = reader.u32();
+  const serverTime = reader.f64();
+
+  let baseline: SnapshotBaseline | undefined;
+  if (baselineTick !== NO_BASELINE) {
+    baseline = findBaseline(baselineTick);
+    if (!baseline) return null;
+  }
+
+  const count = reader.u8();
+  const players: PlayerUpdatedEvent[] = [];
+  for (let i = 0; i < count; i++) {
+    players.push(readSnapshotPose(reader, baseline));
+  }
+  return {
+    tick,
+    serverTime,
+    baselineTick: baselineTick === NO_BASELINE ? undefined : baselineTick,
+    players
+  };
+}
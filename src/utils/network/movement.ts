@@ -0,0 +1,88 @@
+import type { Quat, Vec3 } from "./protocol";
+
+/**
+ * Movement rules shared by the client's prediction and the server's
+ * authoritative simulation. Both sides must step identically or every
+ * acknowledgement turns into a correction, so keep this free of three.js
+ * and in step with Player.updateMovement / checkGroundCollision.
+ */
+
+export const MOVE_SPEED = 5; // m/s, Player.moveSpeed
+export const CROUCH_SPEED_FACTOR = 0.5;
+export const GRAVITY = 9.8;
+export const JUMP_SPEED = 5; // Player.jumpForce
+export const GROUND_LEVEL = 0;
+
+// Players are kept on the 100m floor plane, centred on the origin
+export const ARENA_HALF_SIZE = 50;
+
+// Longest step one input may cover; a stalled tab doesn't get one huge move
+export const MAX_INPUT_DT = 0.1;
+
+// Furthest the hilt may sit from the player's feet (the hand is ~1.3m up)
+export const MAX_SABER_OFFSET = 2.5;
+
+export interface MovementState {
+  position: Vec3;
+  velocityY: number;
+  grounded: boolean;
+}
+
+export interface MovementInput {
+  moveX: number; // world-space direction on the ground plane, length <= 1
+  moveZ: number;
+  jump: boolean; // jump started this step; ignored in mid-air
+  crouch: boolean;
+}
+
+// Advance `state` by one input, in place
+export function stepMovement(state: MovementState, input: MovementInput, dt: number): void {
+  const step = Math.max(0, Math.min(dt, MAX_INPUT_DT));
+
+  // Never faster than full speed, whatever direction vector we were sent
+  let moveX = input.moveX;
+  let moveZ = input.moveZ;
+  const length = Math.sqrt(moveX * moveX + moveZ * moveZ);
+  if (length > 1) {
+    moveX /= length;
+    moveZ /= length;
+  }
+  const speed = input.crouch ? MOVE_SPEED * CROUCH_SPEED_FACTOR : MOVE_SPEED;
+
+  if (!state.grounded) {
+    state.velocityY -= GRAVITY * step;
+  }
+  if (input.jump && state.grounded) {
+    state.velocityY = JUMP_SPEED;
+    state.grounded = false;
+  }
+
+  state.position.x = clampToArena(state.position.x + moveX * speed * step);
+  state.position.z = clampToArena(state.position.z + moveZ * speed * step);
+  state.position.y += state.velocityY * step;
+
+  if (state.position.y <= GROUND_LEVEL) {
+    state.position.y = GROUND_LEVEL;
+    state.velocityY = 0;
+    state.grounded = true;
+  } else {
+    state.grounded = false;
+  }
+}
+
+export function clampToArena(coordinate: number): number {
+  return Math.max(-ARENA_HALF_SIZE, Math.min(ARENA_HALF_SIZE, coordinate));
+}
+
+// Hilt offset from the feet, shortened to MAX_SABER_OFFSET if need be
+export function clampSaberOffset(offset: Vec3): Vec3 {
+  const length = Math.sqrt(offset.x * offset.x + offset.y * offset.y + offset.z * offset.z);
+  if (length <= MAX_SABER_OFFSET) return { ...offset };
+  const scale = MAX_SABER_OFFSET / length;
+  return { x: offset.x * scale, y: offset.y * scale, z: offset.z * scale };
+}
+
+// Rotation about +Y; players face -Z at yaw 0
+export function yawToQuat(yaw: number): Quat {
+  return { x: 0, y: Math.sin(yaw / 2), z: 0, w: Math.cos(yaw / 2) };
+}
@@ -0,0 +1,705 @@
+import { z } from "zod";
+
+/**
+ * Wire protocol shared by the game client and the Socket.IO server.
+ * Bump PROTOCOL_VERSION whenever an event name or payload shape changes;
+ * the server turns away clients that were built against another version.
+ */
+export const PROTOCOL_VERSION = 17;
+
+// Hard ceiling on room size, whatever cap the host asks for
+export const MAX_ROOM_PLAYERS = 8;
+
+// Spectators don't take player slots but are still capped per room
+export const MAX_SPECTATORS = 16;
+
+// ---- Primitives ----
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Quat {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+export type AttackType = "light" | "heavy";
+
+export const GAME_MODES = ["duel", "ffa", "teams"] as const;
+
+export type GameMode = (typeof GAME_MODES)[number];
+
+// Room size limits per mode; teams is 2v2
+export const MODE_MAX_PLAYERS: Record<GameMode, number> = {
+  duel: 2,
+  ffa: MAX_ROOM_PLAYERS,
+  teams: 4
+};
+
+export const TEAMS = ["red", "blue"] as const;
+
+export type Team = (typeof TEAMS)[number];
+
+// How hard the AI bots that fill empty slots fight
+export const BOT_DIFFICULTIES = ["easy", "normal", "hard"] as const;
+
+export type BotDifficulty = (typeof BOT_DIFFICULTIES)[number];
+
+export type GameState = "waiting" | "playing" | "finished";
+
+// Match lengths a host can pick; the first to a majority of rounds wins
+export const BEST_OF_OPTIONS = [1, 3, 5] as const;
+
+export type BestOf = (typeof BEST_OF_OPTIONS)[number];
+
+// Where a match in progress is between rounds
+export type RoundPhase = "round" | "sudden_death" | "intermission" | "over";
+
+// Matchmaking regions; players are paired within one until they have waited a while
+export const REGIONS = ["na", "sa", "eu", "asia", "oce"] as const;
+
+export type Region = (typeof REGIONS)[number];
+
+// How pose traffic is framed; binary is the compact codec in codec.ts,
+// JSON is kept for debugging
+export const WIRE_ENCODINGS = ["json", "binary"] as const;
+
+export type WireEncoding = (typeof WIRE_ENCODINGS)[number];
+
+// Most input frames a client may bundle into one player_input; a client
+// rendering faster than this times the server tick rate sends early
+export const MAX_INPUTS_PER_BATCH = 16;
+
+// Longest chat line the server will relay
+export const MAX_CHAT_LENGTH = 200;
+
+// Quick-chat emotes; each also plays a gesture on the sender's model
+export const EMOTES = ["salute", "taunt", "gg"] as const;
+
+export type Emote = (typeof EMOTES)[number];
+
+// ---- Client -> server payloads ----
+
+// Pose for one of the room's bots, streamed by the host. Players don't send
+// their own poses; they send player_input and the server moves them.
+export interface PlayerUpdatePayload {
+  roomId: string;
+  timestamp?: number; // synced server time the update was sent
+  position: Vec3;
+  rotation: Quat;
+  lightsaberPosition: Vec3;
+  lightsaberRotation: Quat;
+  isAttacking: boolean;
+  isBlocking: boolean;
+  stance?: number;
+  attackType?: AttackType;
+  botId: string;
+}
+
+// One frame of local input. The server replays these in sequence order to
+// move the player, and acknowledges the last of each batch so the client
+// can reconcile.
+export interface PlayerInputCommand {
+  sequence: number; // one higher than the previous command
+  timestamp?: number; // synced server time the input was sampled
+  dt: number; // seconds the input was held for
+  moveX: number; // world-space ground direction, length <= 1
+  moveZ: number;
+  jump: boolean;
+  crouch: boolean;
+  yaw: number; // facing, radians about +Y; 0 looks down -Z
+  saberOffset: Vec3; // hilt position relative to the player's feet
+  saberRotation: Quat;
+  isAttacking: boolean;
+  isBlocking: boolean;
+  stance?: number;
+  attackType?: AttackType;
+}
+
+// The input frames rendered since the last send, oldest first
+export interface PlayerInputBatchPayload {
+  roomId: string;
+  inputs: PlayerInputCommand[];
+}
+
+export interface PlayerHitPayload {
+  roomId: string;
+  targetId: string;
+  botId?: string; // host only: the hit was landed by this bot
+}
+
+export interface CreateRoomOptions {
+  name?: string;
+  isPublic?: boolean; // listed in the room browser
+  maxPlayers?: number;
+  gameMode?: GameMode;
+  password?: string;
+  inviteOnly?: boolean; // joining needs a one-time invite token from the host
+  bestOf?: BestOf;
+  friendlyFire?: boolean; // team mode only; teammates can hurt each other
+  fillWithBots?: boolean; // keep empty slots filled with bots until humans take them
+  botDifficulty?: BotDifficulty;
+}
+
+export interface BotSettingsPayload {
+  roomId: string;
+  fillWithBots?: boolean;
+  difficulty?: BotDifficulty;
+}
+
+export interface JoinRoomPayload {
+  roomId: string;
+  password?: string;
+  inviteToken?: string;
+  asSpectator?: boolean; // watch without taking a player slot
+}
+
+export interface JoinQueuePayload {
+  region: Region;
+}
+
+export interface ChooseTeamPayload {
+  roomId: string;
+  team: Team;
+}
+
+// Either a line of text or a quick-chat emote
+export interface ChatMessagePayload {
+  roomId: string;
+  text?: string;
+  emote?: Emote;
+}
+
+export interface CreateInvitePayload {
+  roomId: string;
+}
+
+export interface KickPlayerPayload {
+  roomId: string;
+  targetId: string;
+  ban?: boolean; // also refuse any later join_room from them
+}
+
+// Runtime schemas for the above, checked by the server on every event.
+// Keep them in step with the interfaces when either changes.
+
+export const vec3Schema = z.object({
+  x: z.number().finite(),
+  y: z.number().finite(),
+  z: z.number().finite()
+});
+
+export const quatSchema = z.object({
+  x: z.number().finite(),
+  y: z.number().finite(),
+  z: z.number().finite(),
+  w: z.number().finite()
+});
+
+export const attackTypeSchema = z.enum(["light", "heavy"]);
+
+export const roomIdSchema = z.string().min(1).max(64);
+
+export const clockPingSchema = z.number().finite();
+
+export const snapshotAckSchema = z.number().int().nonnegative();
+
+export const playerUpdateSchema = z.object({
+  roomId: roomIdSchema,
+  timestamp: z.number().finite().optional(),
+  position: vec3Schema,
+  rotation: quatSchema,
+  lightsaberPosition: vec3Schema,
+  lightsaberRotation: quatSchema,
+  isAttacking: z.boolean(),
+  isBlocking: z.boolean(),
+  stance: z.number().int().min(1).max(7).optional(),
+  attackType: attackTypeSchema.optional(),
+  botId: z.string().min(1).max(64)
+});
+
+export const playerInputCommandSchema = z.object({
+  sequence: z.number().int().min(0),
+  timestamp: z.number().finite().optional(),
+  dt: z.number().finite().min(0),
+  moveX: z.number().finite(),
+  moveZ: z.number().finite(),
+  jump: z.boolean(),
+  crouch: z.boolean(),
+  yaw: z.number().finite(),
+  saberOffset: vec3Schema,
+  saberRotation: quatSchema,
+  isAttacking: z.boolean(),
+  isBlocking: z.boolean(),
+  stance: z.number().int().min(1).max(7).optional(),
+  attackType: attackTypeSchema.optional()
+});
+
+export const playerInputBatchSchema = z.object({
+  roomId: roomIdSchema,
+  inputs: z.array(playerInputCommandSchema).min(1).max(MAX_INPUTS_PER_BATCH)
+});
+
+export const playerHitSchema = z.object({
+  roomId: roomIdSchema,
+  targetId: z.string().min(1),
+  botId: z.string().min(1).max(64).optional()
+});
+
+export const createRoomSchema = z
+  .object({
+    name: z.string().trim().min(1).max(32).optional(),
+    isPublic: z.boolean().optional(),
+    maxPlayers: z.number().int().min(2).max(MAX_ROOM_PLAYERS).optional(),
+    gameMode: z.enum(GAME_MODES).optional(),
+    password: z.string().min(1).max(64).optional(),
+    inviteOnly: z.boolean().optional(),
+    bestOf: z.union([z.literal(1), z.literal(3), z.literal(5)]).optional(),
+    friendlyFire: z.boolean().optional(),
+    fillWithBots: z.boolean().optional(),
+    botDifficulty: z.enum(BOT_DIFFICULTIES).optional()
+  })
+  .optional();
+
+export const botSettingsSchema = z.object({
+  roomId: roomIdSchema,
+  fillWithBots: z.boolean().optional(),
+  difficulty: z.enum(BOT_DIFFICULTIES).optional()
+});
+
+export const joinRoomSchema = z.object({
+  roomId: roomIdSchema,
+  password: z.string().max(64).optional(),
+  inviteToken: z.string().max(64).optional(),
+  asSpectator: z.boolean().optional()
+});
+
+export const joinQueueSchema = z.object({
+  region: z.enum(REGIONS)
+});
+
+export const chooseTeamSchema = z.object({
+  roomId: roomIdSchema,
+  team: z.enum(TEAMS)
+});
+
+export const chatMessageSchema = z
+  .object({
+    roomId: roomIdSchema,
+    text: z.string().trim().min(1).max(MAX_CHAT_LENGTH).optional(),
+    emote: z.enum(EMOTES).optional()
+  })
+  .refine((message) => (message.text === undefined) !== (message.emote === undefined), {
+    message: "Send either text or an emote"
+  });
+
+export const createInviteSchema = z.object({
+  roomId: roomIdSchema
+});
+
+export const kickPlayerSchema = z.object({
+  roomId: roomIdSchema,
+  targetId: z.string().min(1),
+  ban: z.boolean().optional()
+});
+
+// ---- Server -> client payloads ----
+
+export interface NetworkPlayer {
+  id: string;
+  position: Vec3;
+  rotation: Quat;
+  health: number;
+  lightsaberPosition: Vec3;
+  lightsaberRotation: Quat;
+  isAttacking: boolean;
+  isBlocking: boolean;
+  stance: number;
+  attackType: AttackType;
+  isConnected: boolean; // false while the player is inside their reconnect grace period
+  team: Team | null; // null outside team mode
+  isBot: boolean; // simulated by the host's client
+}
+
+// One row of the public room browser
+export interface RoomSummary {
+  id: string;
+  name: string;
+  gameMode: GameMode;
+  gameState: GameState;
+  playerCount: number; // humans only; bots give up their slot when someone joins
+  botCount: number;
+  maxPlayers: number;
+  bestOf: BestOf;
+  hasPassword: boolean;
+  spectatorCount: number;
+  ping: number; // ms, average round trip of the players in the room
+}
+
+export interface RoomCreatedEvent {
+  roomId: string;
+  joinUrl: string;
+  gameMode: GameMode;
+  team: Team | null; // the host's team in team mode
+}
+
+export interface InviteCreatedEvent {
+  inviteToken: string;
+  joinUrl: string;
+}
+
+export interface PlayerJoinedEvent {
+  playerId: string;
+  gameMode: GameMode;
+  players: NetworkPlayer[];
+}
+
+export interface BotSettingsEvent {
+  fillWithBots: boolean;
+  difficulty: BotDifficulty;
+}
+
+export interface TeamChangedEvent {
+  playerId: string;
+  team: Team;
+}
+
+// Per-player match stats
+export interface PlayerScore {
+  playerId: string;
+  team: Team | null;
+  kills: number;
+  deaths: number;
+  damageDealt: number;
+  roundsWon: number;
+}
+
+export interface TeamScore {
+  team: Team;
+  roundsWon: number;
+  kills: number;
+}
+
+// Match stats keyed by player id and, in team mode, by team
+export interface Scoreboard {
+  players: Record<string, PlayerScore>;
+  teams: Partial<Record<Team, TeamScore>>;
+}
+
+export interface GameStartedEvent {
+  startTime: number;
+  players: NetworkPlayer[];
+}
+
+export interface PlayerUpdatedEvent {
+  playerId: string;
+  timestamp: number; // server time the pose was sampled by its sender
+  position: Vec3;
+  rotation: Quat;
+  lightsaberPosition: Vec3;
+  lightsaberRotation: Quat;
+  isAttacking: boolean;
+  isBlocking: boolean;
+}
+
+// Every pose in the room that changed since the previous tick, minus the
+// ones the recipient sent itself
+export interface WorldSnapshotEvent {
+  tick: number; // counts up by one per server tick
+  serverTime: number;
+  baselineTick?: number; // binary only: the acknowledged snapshot the poses were delta-encoded against
+  players: PlayerUpdatedEvent[];
+}
+
+// Authoritative movement state after the server applied input `sequence`
+export interface InputAckEvent {
+  sequence: number;
+  position: Vec3;
+  velocityY: number;
+  grounded: boolean;
+}
+
+export interface PlayerDamagedEvent {
+  playerId: string;
+  health: number;
+  attackerId: string;
+  damage: number;
+  contactPoint: Vec3;
+}
+
+export interface PlayerDefeatedEvent {
+  playerId: string;
+  winnerId: string;
+}
+
+// Everyone is back at their spawn point with full health
+export interface RoundStartedEvent {
+  roundNumber: number;
+  bestOf: BestOf;
+  startTime: number; // server time
+  endsAt: number; // server time the round times out and sudden death begins
+  scoreboard: Scoreboard;
+  players: NetworkPlayer[];
+}
+
+// The round timer ran out; the next hit that lands wins the round
+export interface SuddenDeathEvent {
+  roundNumber: number;
+}
+
+export type RoundEndReason = "defeat" | "forfeit" | "aborted"; // aborted: ended by a server admin
+
+// The last player (or team) standing takes the round
+export interface RoundEndedEvent {
+  roundNumber: number;
+  winnerId: string | null; // null in team mode, or if nobody was left standing
+  winningTeam: Team | null;
+  reason: RoundEndReason;
+  scoreboard: Scoreboard;
+  nextRoundAt: number | null; // server time; null when this round decided the match
+}
+
+export interface MatchEndedEvent {
+  winnerId: string | null;
+  winningTeam: Team | null;
+  reason: RoundEndReason;
+  scoreboard: Scoreboard;
+}
+
+export interface RematchUpdatedEvent {
+  votes: string[]; // ids of players who want a rematch
+  required: number;
+}
+
+// Everyone voted for a rematch; the room is waiting for the host to start again
+export interface MatchResetEvent {
+  roomId: string;
+  players: NetworkPlayer[];
+}
+
+export interface ChatMessageEvent {
+  roomId: string;
+  playerId: string;
+  text: string; // already filtered; empty for a bare emote
+  emote: Emote | null;
+  isSpectator: boolean;
+  sentAt: number; // server time
+}
+
+// Announcement from the server operators, to one room or everyone
+export interface ServerMessageEvent {
+  text: string;
+  sentAt: number; // server time
+}
+
+export interface PlayerLeftEvent {
+  playerId: string;
+}
+
+// Issued on every connection; present the token on reconnect to resume
+export interface SessionEvent {
+  playerId: string;
+  sessionToken: string;
+  encoding: WireEncoding; // what the server agreed to use for pose traffic
+  tickRate: number; // world snapshots per second; clients send input no faster
+}
+
+export interface SessionResumedEvent {
+  roomId: string;
+  isHost: boolean;
+  gameState: GameState;
+  players: NetworkPlayer[];
+}
+
+// Sent to a socket that joined as a spectator
+export interface SpectateStartedEvent {
+  roomId: string;
+  gameState: GameState;
+  players: NetworkPlayer[];
+  spectatorCount: number;
+}
+
+export interface SpectatorsUpdatedEvent {
+  roomId: string;
+  count: number;
+}
+
+// Our stored rating, sent once the server has loaded it after connect
+export interface ProfileEvent {
+  rating: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+}
+
+export interface QueueJoinedEvent {
+  rating: number;
+  region: Region;
+  queuedAt: number; // server time
+  queueSize: number;
+}
+
+export interface MatchFoundEvent {
+  roomId: string;
+  hostId: string;
+  opponentId: string;
+  opponentRating: number;
+  rating: number;
+}
+
+export interface RatingUpdatedEvent {
+  playerId: string;
+  rating: number;
+  delta: number;
+  gamesPlayed: number;
+}
+
+export interface PlayerDisconnectedEvent {
+  playerId: string;
+  graceMs: number; // how long the slot is held before the player is removed
+}
+
+export interface PlayerReconnectedEvent {
+  playerId: string;
+}
+
+export interface HostChangedEvent {
+  hostId: string;
+  previousHostId: string;
+}
+
+export type HitRejectionReason =
+  | "game_not_playing"
+  | "attacker_not_found"
+  | "target_not_found"
+  | "self_hit"
+  | "attacker_defeated"
+  | "friendly_fire"
+  | "target_defeated"
+  | "target_disconnected"
+  | "round_not_active"
+  | "not_attacking"
+  | "attack_expired"
+  | "already_hit"
+  | "cooldown"
+  | "out_of_range"
+  | "blade_out_of_reach"
+  | "no_contact";
+
+export interface HitRejectedEvent {
+  targetId: string;
+  reason: HitRejectionReason;
+}
+
+export interface ClockPongEvent {
+  clientTime: number;
+  serverTime: number;
+}
+
+export type ErrorCode =
+  | "protocol_mismatch"
+  | "invalid_payload"
+  | "room_not_found"
+  | "game_in_progress"
+  | "match_already_started" // a repeated start_game; unlike game_in_progress, we stay in the room
+  | "room_full"
+  | "password_required"
+  | "wrong_password"
+  | "invite_required"
+  | "invite_invalid"
+  | "banned"
+  | "kicked"
+  | "player_not_found"
+  | "room_closed"
+  | "already_in_room"
+  | "not_enough_players"
+  | "team_full"
+  | "not_authorized"
+  | "rate_limited"
+  | "too_many_strikes"; // sent just before the server disconnects an abusive client
+
+export interface ErrorEvent {
+  code: ErrorCode;
+  message: string;
+}
+
+// ---- Socket.IO event maps ----
+
+export interface ServerToClientEvents {
+  clock_pong: (data: ClockPongEvent) => void;
+  latency_probe: (ack: () => void) => void;
+  room_created: (data: RoomCreatedEvent) => void;
+  player_joined: (data: PlayerJoinedEvent) => void;
+  game_started: (data: GameStartedEvent) => void;
+  world_snapshot: (data: WorldSnapshotEvent) => void;
+  world_snapshot_bin: (data: ArrayBuffer) => void;
+  input_ack: (data: InputAckEvent) => void;
+  player_damaged: (data: PlayerDamagedEvent) => void;
+  player_defeated: (data: PlayerDefeatedEvent) => void;
+  player_left: (data: PlayerLeftEvent) => void;
+  team_changed: (data: TeamChangedEvent) => void;
+  bot_settings: (data: BotSettingsEvent) => void;
+  round_started: (data: RoundStartedEvent) => void;
+  sudden_death: (data: SuddenDeathEvent) => void;
+  round_ended: (data: RoundEndedEvent) => void;
+  match_ended: (data: MatchEndedEvent) => void;
+  rematch_updated: (data: RematchUpdatedEvent) => void;
+  match_reset: (data: MatchResetEvent) => void;
+  player_disconnected: (data: PlayerDisconnectedEvent) => void;
+  player_reconnected: (data: PlayerReconnectedEvent) => void;
+  session: (data: SessionEvent) => void;
+  session_resumed: (data: SessionResumedEvent) => void;
+  spectate_started: (data: SpectateStartedEvent) => void;
+  profile: (data: ProfileEvent) => void;
+  queue_joined: (data: QueueJoinedEvent) => void;
+  queue_left: () => void;
+  match_found: (data: MatchFoundEvent) => void;
+  rating_updated: (data: RatingUpdatedEvent) => void;
+  spectators_updated: (data: SpectatorsUpdatedEvent) => void;
+  chat_message: (data: ChatMessageEvent) => void;
+  server_message: (data: ServerMessageEvent) => void;
+  host_changed: (data: HostChangedEvent) => void;
+  hit_rejected: (data: HitRejectedEvent) => void;
+  error: (data: ErrorEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  clock_ping: (clientTime: number) => void;
+  create_room: (options?: CreateRoomOptions) => void;
+  list_rooms: (ack: (rooms: RoomSummary[]) => void) => void;
+  join_room: (data: JoinRoomPayload) => void;
+  create_invite: (data: CreateInvitePayload, ack: (invite: InviteCreatedEvent | null) => void) => void;
+  kick_player: (data: KickPlayerPayload) => void;
+  choose_team: (data: ChooseTeamPayload) => void;
+  update_bot_settings: (data: BotSettingsPayload) => void;
+  join_queue: (data: JoinQueuePayload) => void;
+  leave_queue: () => void;
+  start_game: (roomId: string) => void;
+  rematch_vote: (roomId: string) => void;
+  player_update: (data: PlayerUpdatePayload) => void;
+  player_update_bin: (roomId: string, data: ArrayBuffer) => void;
+  player_input: (data: PlayerInputBatchPayload) => void;
+  player_input_bin: (roomId: string, data: ArrayBuffer) => void;
+  snapshot_ack: (tick: number) => void; // binary only: the latest world snapshot we decoded
+  player_hit: (data: PlayerHitPayload) => void;
+  chat_message: (data: ChatMessagePayload) => void;
+}
+
+// Sent in the Socket.IO handshake `auth` field
+export interface HandshakeAuth {
+  protocolVersion: number;
+  sessionToken?: string; // resume a dropped session instead of starting a new one
+  profileId?: string; // long-lived id kept in localStorage; ratings are stored under it
+  encoding?: WireEncoding; // requested framing for pose traffic; JSON if absent
+}
+
+// Attached to the connect_error raised when the handshake is refused
+export interface HandshakeErrorData {
+  code: ErrorCode;
+  serverVersion: number;
+}
@@ -1,6 +1,22 @@
 
-import { Group, Vector3, Quaternion, Mesh, BoxGeometry, MeshBasicMaterial, CylinderGeometry, MeshStandardMaterial, Scene, Object3D } from 'three';
+import { Group, Vector3, Quaternion, Mesh, BoxGeometry, MeshBasicMaterial, CylinderGeometry, MeshStandardMaterial, Scene, Object3D, Sprite, SpriteMaterial, CanvasTexture } from 'three';
 import { Lightsaber } from './lightsaber';
+import { SnapshotBuffer, PoseSnapshot } from '../network/SnapshotBuffer';
+import type { Emote, Team } from '../network/protocol';
+
+// Body and blade colours per team; free-for-all opponents keep the default blue body
+const TEAM_COLORS: Record<Team, { body: number; head: number; blade: string }> = {
+  red: { body: 0xaa2222, head: 0xcc4444, blade: '#ff0000' },
+  blue: { body: 0x0000ff, head: 0x0055ff, blade: '#0088ff' }
+};
+
+// Quick-chat gestures play for this long (seconds) under a caption
+const EMOTE_DURATION = 1.6;
+const EMOTE_CAPTIONS: Record<Emote, string> = {
+  salute: 'o7',
+  taunt: 'come at me',
+  gg: 'GG'
+};
 
 export class RemotePlayer extends Group {
   private playerId: string;
@@ -8,12 +24,24 @@ export class RemotePlayer extends Group {
   private lightsaber: Lightsaber;
   private health: number = 100;
   private body: Group;
-  private targetPosition: Vector3 = new Vector3();
-  private targetRotation: Quaternion = new Quaternion();
-  private targetLightsaberPosition: Vector3 = new Vector3();
-  private targetLightsaberRotation: Quaternion = new Quaternion();
+  private snapshots: SnapshotBuffer = new SnapshotBuffer({ interpolationDelay: 100 });
+  private renderedPose: PoseSnapshot = {
+    time: 0,
+    position: new Vector3(),
+    rotation: new Quaternion(),
+    lightsaberPosition: new Vector3(),
+    lightsaberRotation: new Quaternion(),
+    isAttacking: false,
+    isBlocking: false
+  };
   private isAttacking: boolean = false;
   private isBlocking: boolean = false;
+  private isReconnecting: boolean = false;
+  private bodyMaterials: MeshBasicMaterial[] = [];
+  private reconnectingLabel: Sprite | null = null;
+  private activeEmote: Emote | null = null;
+  private emoteElapsed: number = 0;
+  private emoteLabel: Sprite | null = null;
   
   constructor(scene: Scene, id: string) {
     super();
@@ -32,6 +60,7 @@ export class RemotePlayer extends Group {
     );
     bodyMesh.position.y = 0.9;
     this.body.add(bodyMesh);
+    this.bodyMaterials.push(bodyMesh.material);
     
     // Create head
     const head = new Mesh(
@@ -40,6 +69,7 @@ export class RemotePlayer extends Group {
     );
     head.position.y = 1.8;
     this.body.add(head);
+    this.bodyMaterials.push(head.material);
     
     // Create lightsaber with red color
     this.lightsaber = new Lightsaber({
@@ -56,13 +86,22 @@ export class RemotePlayer extends Group {
   }
   
   public update(deltaTime: number): void {
-    // Smooth interpolation of position and rotation
-    this.position.lerp(this.targetPosition, 0.2);
-    this.quaternion.slerp(this.targetRotation, 0.2);
+    // Frozen in place until the player comes back
+    if (this.isReconnecting) {
+      this.lightsaber.update(deltaTime);
+      return;
+    }
     
-    // Update lightsaber position and rotation
-    this.lightsaber.position.lerp(this.targetLightsaberPosition, 0.2);
-    this.lightsaber.quaternion.slerp(this.targetLightsaberRotation, 0.2);
+    // Render a fixed delay behind the newest snapshot so there is always a
+    // pair to interpolate between, independent of framerate
+    if (this.snapshots.sample(performance.now(), this.renderedPose)) {
+      this.position.copy(this.renderedPose.position);
+      this.quaternion.copy(this.renderedPose.rotation);
+      this.lightsaber.position.copy(this.renderedPose.lightsaberPosition);
+      this.lightsaber.quaternion.copy(this.renderedPose.lightsaberRotation);
+      this.isAttacking = this.renderedPose.isAttacking;
+      this.isBlocking = this.renderedPose.isBlocking;
+    }
     
     // Update lightsaber animation
     this.lightsaber.update(deltaTime);
@@ -77,6 +116,58 @@ export class RemotePlayer extends Group {
       // Show blocking stance
       this.lightsaber.block();
     }
+    
+    this.updateEmote(deltaTime);
+  }
+  
+  // Play a quick-chat gesture: the body bows, bounces or sways under a caption
+  public playEmote(emote: Emote): void {
+    if (this.isReconnecting) return;
+    this.clearEmote();
+    this.activeEmote = emote;
+    this.emoteElapsed = 0;
+    this.emoteLabel = this.createLabel(EMOTE_CAPTIONS[emote]);
+    this.emoteLabel.position.y = 2.4;
+    this.add(this.emoteLabel);
+  }
+  
+  private updateEmote(deltaTime: number): void {
+    if (!this.activeEmote) return;
+    
+    this.emoteElapsed += deltaTime;
+    const t = this.emoteElapsed / EMOTE_DURATION;
+    if (t >= 1) {
+      this.clearEmote();
+      return;
+    }
+    
+    // Rises and falls back to rest over the gesture; the model faces -Z, so a
+    // negative X rotation tips it forward
+    const envelope = Math.sin(t * Math.PI);
+    switch (this.activeEmote) {
+      case 'salute':
+        this.body.rotation.x = -0.3 * Math.min(1, envelope * 2);
+        break;
+      case 'taunt':
+        this.body.rotation.z = 0.25 * Math.sin(t * Math.PI * 4);
+        this.body.position.y = 0.15 * Math.abs(Math.sin(t * Math.PI * 4));
+        break;
+      case 'gg':
+        this.body.rotation.x = -0.6 * envelope;
+        break;
+    }
+  }
+  
+  private clearEmote(): void {
+    this.activeEmote = null;
+    this.body.rotation.set(0, 0, 0);
+    this.body.position.y = 0;
+    if (this.emoteLabel) {
+      this.remove(this.emoteLabel);
+      this.emoteLabel.material.map?.dispose();
+      this.emoteLabel.material.dispose();
+      this.emoteLabel = null;
+    }
   }
   
   public updateFromNetwork(
@@ -85,25 +176,82 @@ export class RemotePlayer extends Group {
     lightsaberPosition: { x: number; y: number; z: number },
     lightsaberRotation: { x: number; y: number; z: number; w: number },
     isAttacking: boolean,
-    isBlocking: boolean
+    isBlocking: boolean,
+    timestamp: number = performance.now() // ms, on the performance.now() clock
   ): void {
-    // Update target positions for smooth interpolation
-    this.targetPosition.set(position.x, position.y, position.z);
-    this.targetRotation.set(rotation.x, rotation.y, rotation.z, rotation.w);
-    this.targetLightsaberPosition.set(
-      lightsaberPosition.x,
-      lightsaberPosition.y,
-      lightsaberPosition.z
-    );
-    this.targetLightsaberRotation.set(
-      lightsaberRotation.x,
-      lightsaberRotation.y,
-      lightsaberRotation.z,
-      lightsaberRotation.w
-    );
+    // Buffer the snapshot; update() plays it back after the interpolation delay
+    this.snapshots.push({
+      time: timestamp,
+      position: new Vector3(position.x, position.y, position.z),
+      rotation: new Quaternion(rotation.x, rotation.y, rotation.z, rotation.w),
+      lightsaberPosition: new Vector3(lightsaberPosition.x, lightsaberPosition.y, lightsaberPosition.z),
+      lightsaberRotation: new Quaternion(
+        lightsaberRotation.x,
+        lightsaberRotation.y,
+        lightsaberRotation.z,
+        lightsaberRotation.w
+      ),
+      isAttacking,
+      isBlocking
+    });
+  }
+  
+  // Tint the body and blade to show which team the player is on
+  public setTeam(team: Team | null): void {
+    if (!team) return;
+    const colors = TEAM_COLORS[team];
+    this.bodyMaterials[0]?.color.setHex(colors.body);
+    this.bodyMaterials[1]?.color.setHex(colors.head);
+    this.lightsaber.setColor(colors.blade);
+  }
+  
+  // Show or clear the "reconnecting…" state while the player's connection is down
+  public setReconnecting(reconnecting: boolean): void {
+    if (this.isReconnecting === reconnecting) return;
+    this.isReconnecting = reconnecting;
+    
+    // Ghost the body while they are away
+    this.bodyMaterials.forEach(material => {
+      material.transparent = reconnecting;
+      material.opacity = reconnecting ? 0.35 : 1;
+    });
+    
+    if (reconnecting) {
+      this.clearEmote();
+      this.isAttacking = false;
+      this.isBlocking = false;
+      if (!this.reconnectingLabel) {
+        this.reconnectingLabel = this.createLabel('reconnecting…');
+        this.reconnectingLabel.position.y = 2.4;
+      }
+      this.add(this.reconnectingLabel);
+    } else {
+      // Stale poses from before the drop would make them slide back into place
+      this.snapshots.clear();
+      if (this.reconnectingLabel) this.remove(this.reconnectingLabel);
+    }
+  }
+  
+  public getIsReconnecting(): boolean {
+    return this.isReconnecting;
+  }
+  
+  private createLabel(text: string): Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 64;
+    const context = canvas.getContext('2d');
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.font = '28px sans-serif';
+    context.fillStyle = '#ffcc00';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
     
-    this.isAttacking = isAttacking;
-    this.isBlocking = isBlocking;
+    const sprite = new Sprite(new SpriteMaterial({ map: new CanvasTexture(canvas), depthTest: false }));
+    sprite.scale.set(1.2, 0.3, 1);
+    return sprite;
   }
   
   public setHealth(health: number): void {
@@ -124,4 +272,17 @@ export class RemotePlayer extends Group {
   public getId(): string {
     return this.playerId;
   }
+  
+  // The model faces -Z at rest
+  public getDirection(): Vector3 {
+    return new Vector3(0, 0, -1).applyQuaternion(this.quaternion);
+  }
+  
+  public getLightsaberHiltPosition(): Vector3 {
+    return this.lightsaber.getWorldPosition(new Vector3());
+  }
+  
+  public getLightsaberTipPosition(): Vector3 {
+    return this.lightsaber.getBladeTopPosition();
+  }
 }
@@ -0,0 +1,44 @@
+/**
+ * The side a strike comes in from: left, right, overhead, or a straight
+ * stab. Attacks and guards both take theirs from the last flick of the
+ * mouse, and a guard only stops strikes from the side it covers.
+ */
+export type AttackDirection = 'left' | 'right' | 'overhead' | 'stab';
+
+export const ATTACK_DIRECTIONS: AttackDirection[] = ['left', 'right', 'overhead', 'stab'];
+
+// Movement fades out of the reading over roughly this long
+const MOUSE_MEMORY_MS = 150;
+
+// Pixels of recent movement before it counts as a flick rather than a drift
+const FLICK_THRESHOLD = 20;
+
+/**
+ * Reads a direction from recent mouse movement (pointer-lock deltas).
+ */
+export class MouseDirectionTracker {
+  private dx: number = 0;
+  private dy: number = 0;
+  private updatedAt: number = 0;
+
+  addMovement(movementX: number, movementY: number, now: number = performance.now()): void {
+    this.fade(now);
+    this.dx += movementX;
+    this.dy += movementY;
+  }
+
+  // The last flick's direction, or null if the mouse has been mostly still
+  read(now: number = performance.now()): AttackDirection | null {
+    this.fade(now);
+    if (Math.max(Math.abs(this.dx), Math.abs(this.dy)) < FLICK_THRESHOLD) return null;
+    if (Math.abs(this.dx) > Math.abs(this.dy)) return this.dx < 0 ? 'left' : 'right';
+    return this.dy < 0 ? 'overhead' : 'stab'; // screen y grows downwards
+  }
+
+  private fade(now: number): void {
+    const remaining = Math.exp(-Math.max(0, now - this.updatedAt) / MOUSE_MEMORY_MS);
+    this.dx *= remaining;
+    this.dy *= remaining;
+    this.updatedAt = now;
+  }
+}
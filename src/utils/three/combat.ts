@@ -4,6 +4,24 @@ import { Enemy } from './enemy';
 import gameAudio from './audio';
 import { createSaberClashEffect } from './effects';
 import { createHitEffect } from './effects';
+import { RemotePlayer } from './RemotePlayer';
+import { BladeSegment, BodyHit, BodyPart, LimbCapsule, bodyCapsules, sweepBlade } from './hitDetection';
+import { LIMB_DAMAGE_MULTIPLIERS, isLeg, swordArmOf } from './limbDamage';
+
+type Combatant = Player | Enemy | RemotePlayer;
+
+// A blade connecting with a body, where and on which limb
+export interface BladeHitEvent {
+  attacker: Player | Enemy;
+  target: Combatant;
+  part: BodyPart;
+  point: Vector3;
+}
+
+interface BladeSweep {
+  previous: BladeSegment;
+  current: BladeSegment;
+}
 
 export class CombatSystem {
   private scene: Scene;
@@ -15,6 +33,12 @@ export class CombatSystem {
   private camera: Camera | null = null;
   private attackCooldowns = new WeakMap<Enemy, number>();
   private debugMode: boolean = true;
+  private parryStagger: number = 1.2; // seconds a parried attacker reels
+  private riposteDamageMultiplier: number = 1.5;
+  private playerSwingSeen: boolean = false; // enemies have had their look at the current swing
+  private previousBlades = new WeakMap<Player | Enemy, BladeSegment>();
+  private getRemotePlayers: () => RemotePlayer[] = () => [];
+  private bladeHitListeners = new Set<(hit: BladeHitEvent) => void>();
   
   constructor(scene: Scene, player: Player) {
     this.scene = scene;
@@ -30,63 +54,76 @@ export class CombatSystem {
     this.enemies.push(enemy);
   }
   
+  clearEnemies(): void {
+    this.enemies = [];
+  }
+  
+  // Online opponents the player's blade is tested against
+  setRemotePlayers(getRemotePlayers: () => RemotePlayer[]): void {
+    this.getRemotePlayers = getRemotePlayers;
+  }
+  
+  // Fires for every blade that lands on a body; blocked strikes do not count
+  onBladeHit(listener: (hit: BladeHitEvent) => void): () => void {
+    this.bladeHitListeners.add(listener);
+    return () => {
+      this.bladeHitListeners.delete(listener);
+    };
+  }
+  
   getEnemies(): Enemy[] {
     return this.enemies;
   }
   
   update(deltaTime: number): void {
+    // Every blade moves every frame, so advance them all before any early outs
+    const playerSweep = this.advanceBlade(this.player);
+    const enemySweeps = new Map(this.enemies.map(enemy => [enemy, this.advanceBlade(enemy)]));
+    
+    this.showPlayerSwingToEnemies();
+    
     // Player attack debug
     if (this.player.isAttacking()) {
        console.log("👊 PLAYER IS ATTACKING");
       
-      for (const enemy of this.enemies) {
-        if (!enemy.isAlive()) continue;
-        
-        // REFINED HIT DETECTION: Only check during the swing animation
-        const swingProgress = this.player.getSwingProgress(); // Need to add this method to Player
-        // Check hit only during the middle part of the swing (e.g., 20% to 80%)
-        if (swingProgress > 0.2 && swingProgress < 0.8) {
-          const playerSaberTip = this.player.getLightsaberPosition(); // Position of the saber tip
-          const enemyBodyCenter = enemy.position.clone().add(new Vector3(0, 1, 0)); // Approx center mass
-          const hitDistance = playerSaberTip.distanceTo(enemyBodyCenter);
+      // REFINED HIT DETECTION: Only check during the swing animation
+      const swingProgress = this.player.getSwingProgress();
+      // Check hit only during the middle part of the swing (e.g., 20% to 80%)
+      if (swingProgress > 0.2 && swingProgress < 0.8) {
+        for (const enemy of this.enemies) {
+          if (!enemy.isAlive() || this.player.hasAppliedDamageInCurrentAttack()) continue;
           
-       console.log("⚔️ Player Swing - Saber Tip to Enemy Center:", hitDistance.toFixed(2));
+          const hit = sweepBlade(playerSweep.previous, playerSweep.current, this.bodyOf(enemy));
+          if (!hit) continue;
           
-          // More realistic hit range
-          const hitRange = 1.5; // Adjust as needed
-
-          if (hitDistance < hitRange && !this.player.hasAppliedDamageInCurrentAttack()) {
-            console.log("🎯 DIRECT HIT DETECTED!");
-            
-            // Debug BEFORE damage
-            console.log("Enemy health BEFORE damage:", enemy.getHealth());
-            
-            // CRITICAL: Reduce damage to require at least 5 hits
-            // Reduced damage based on attack type
-            const damage = this.player.getCurrentAttackType() === 'heavy' ? 15 : 8; 
-            enemy.takeDamage(damage);
-            
-            // Debug AFTER damage
-            console.log("Enemy health AFTER damage:", enemy.getHealth());
-            
-            // Visuals and audio
-            createHitEffect(this.scene, enemy.position.clone().add(new Vector3(0, 1.2, 0)), '#ff0000');
-            gameAudio.playSound('enemyHit', { volume: 1.0 });
-            
-            // Add cooldown to prevent multiple hits in one swing
-            this.lastHitTime = performance.now() / 1000;
-            
-            // Mark that we've applied damage for this attack
-            this.player.setDamageAppliedInCurrentAttack(true);
-            
-            // Reset damage flag after a delay
-            setTimeout(() => {
-              this.player.setDamageAppliedInCurrentAttack(false);
-            }, 800);
-            
-            break;
-          }
+          if (this.blockedByEnemy(enemy, hit)) break;
+          
+          console.log(`🎯 DIRECT HIT DETECTED on ${hit.part}!`);
+          
+          // Debug BEFORE damage
+          console.log("Enemy health BEFORE damage:", enemy.getHealth());
+          
+          // CRITICAL: Reduce damage to require at least 5 hits
+          // Reduced damage based on attack type
+          const baseDamage = this.player.getCurrentAttackType() === 'heavy' ? 15 : 8;
+          const damage = this.woundTarget(enemy, hit, this.playerSwingDamage(baseDamage));
+          enemy.takeDamage(damage, this.player.position, hit.point);
+          
+          // Debug AFTER damage
+          console.log("Enemy health AFTER damage:", enemy.getHealth());
+          
+          // Visuals and audio
+          createHitEffect(this.scene, hit.point, '#ff0000');
+          gameAudio.playSound('enemyHit', { volume: 1.0 });
+          this.emitBladeHit({ attacker: this.player, target: enemy, part: hit.part, point: hit.point });
+          
+          // Add cooldown to prevent multiple hits in one swing
+          this.lastHitTime = performance.now() / 1000;
+          this.markPlayerHitLanded();
+          break;
         }
+        
+        this.checkRemotePlayerHits(playerSweep);
       }
     }
     
@@ -98,37 +135,52 @@ export class CombatSystem {
       if (enemy.getAttackTimer() > 0.1 && enemy.getAttackTimer() < 0.8) {
         console.log("⚔️ ENEMY ATTACK WINDOW ACTIVE");
         
-        const playerPos = this.player.getPosition();
-        const hitDistance = playerPos.distanceTo(enemy.position);
-        
-        // Get enemy saber position for more accuracy
-        const enemySaberTip = enemy.getLightsaberPosition();
-        const distanceToEnemySaber = playerPos.distanceTo(enemySaberTip);
-
-       console.log("⚔️ Enemy Attack - Player to Enemy Saber:", distanceToEnemySaber.toFixed(2));
+        if (enemy.hasAppliedDamageInCurrentAttack()) continue;
         
-        // CRITICAL: Ensure enemy attacks land at reasonable distance
-        const enemyHitRange = 1.8; // Adjust as needed
-        if (distanceToEnemySaber < enemyHitRange && !enemy.hasAppliedDamageInCurrentAttack()) { // Add hasAppliedDamage flag to Enemy
-          // Check if player is blocking
-          if (this.player.isPlayerBlocking()) {
+        const sweep = enemySweeps.get(enemy)!;
+        const hit = sweepBlade(sweep.previous, sweep.current, this.bodyOf(this.player));
+        if (hit) {
+          // Only a guard on the side the strike comes from can stop it
+          const guarded = this.player.isPlayerBlocking() && this.player.getGuardDirection() === enemy.getAttackDirection();
+          
+          // A block raised just before the strike lands parries it: no damage,
+          // the attacker reels, and the player gets a riposte
+          if (guarded && this.player.isParrying()) {
+       console.log("🛡️ PLAYER PARRIED ENEMY ATTACK!");
+            createSaberClashEffect(this.scene, this.player.getLightsaberPosition(), '#ffff00');
+            gameAudio.playSound('lightsaberClash', { volume: 1.0 });
+            enemy.applyStagger(this.parryStagger);
+            this.player.openRiposte();
+            enemy.setDamageAppliedInCurrentAttack(true);
+          } else if (guarded && this.player.absorbBlockedHit()) {
        console.log("🛡️ PLAYER BLOCKED ENEMY ATTACK!");
             // Trigger clash effect at block point
             const blockPoint = this.player.getLightsaberPosition(); // Approx block point
             createSaberClashEffect(this.scene, blockPoint, '#ffffff');
             gameAudio.playSound('lightsaberClash', { volume: 0.9 });
+            // Player.takeDamage only lets part of a blocked strike through
+            this.player.takeDamage(enemy.getAttackDamage(3), enemy.position);
+            enemy.setDamageAppliedInCurrentAttack(true);
             // Optional: Apply stagger to enemy
             enemy.applyStagger(0.5); 
           } else {
-       console.log("🎯 PLAYER HIT BY ENEMY!");
+            // Too tired to hold the guard: it breaks and the strike lands in full
+            if (guarded) {
+       console.log("💥 PLAYER GUARD BROKEN!");
+              this.player.guardBreak();
+            } else if (this.player.isPlayerBlocking()) {
+       console.log(`🛡️ Guarding ${this.player.getGuardDirection()}, strike came ${enemy.getAttackDirection()}`);
+            }
+            
+       console.log(`🎯 PLAYER HIT BY ENEMY on ${hit.part}!`);
             
             // Debug player health before damage
        console.log("Player health BEFORE damage:", this.player.getHealth());
             
             // CRITICAL: Ensure enemy damage is applied properly
-            const damage = enemy.getAttackDamage(3);
+            const damage = this.woundTarget(this.player, hit, enemy.getAttackDamage(3));
        console.log(`Enemy dealing ${damage} damage to player`);
-            this.player.takeDamage(damage);
+            this.player.takeDamage(damage, enemy.position, true);
             
             // Debug player health after damage
        console.log("Player health AFTER damage:", this.player.getHealth());
@@ -137,9 +189,10 @@ export class CombatSystem {
             enemy.setDamageAppliedInCurrentAttack(true);
             
             // Visual and audio feedback
-            createHitEffect(this.scene, playerPos.clone().add(new Vector3(0, 1.2, 0)), '#ff0000');
+            createHitEffect(this.scene, hit.point, '#ff0000');
             gameAudio.playSound('playerHit', { volume: 1.0 });
             this.applyCameraShake(0.4);
+            this.emitBladeHit({ attacker: enemy, target: this.player, part: hit.part, point: hit.point });
             
             // Add cooldown to prevent multiple hits
             enemy.setAttackCooldown(1.5);
@@ -150,10 +203,100 @@ export class CombatSystem {
     }
 
     // Check for player attack
-    this.checkPlayerAttacks(deltaTime);
+    this.checkPlayerAttacks(playerSweep);
+  }
+  
+  // Where the blade was last frame and where it is now; on the first frame
+  // both are the current blade
+  private advanceBlade(owner: Player | Enemy): BladeSweep {
+    const current = { start: owner.getLightsaberHiltPosition(), end: owner.getLightsaberTipPosition() };
+    const previous = this.previousBlades.get(owner) ?? current;
+    this.previousBlades.set(owner, current);
+    return { previous, current };
+  }
+  
+  private bodyOf(target: Combatant): LimbCapsule[] {
+    return bodyCapsules(target.position, target.getDirection());
+  }
+  
+  // What the player's swing is worth before hit location: less with a hurt
+  // sword arm, more on a riposte
+  private playerSwingDamage(baseDamage: number): number {
+    const riposte = this.player.isRiposting() ? this.riposteDamageMultiplier : 1;
+    return baseDamage * this.player.getAttackStrength() * riposte;
+  }
+  
+  // Each enemy gets one look at a swing as it starts, to decide whether to guard
+  private showPlayerSwingToEnemies(): void {
+    if (!this.player.isAttacking()) {
+      this.playerSwingSeen = false;
+      return;
+    }
+    if (this.playerSwingSeen) return;
+    
+    this.playerSwingSeen = true;
+    for (const enemy of this.enemies) {
+      if (enemy.isAlive() && enemy.position.distanceTo(this.player.position) < enemy.getAttackRange() * 1.5) {
+        enemy.readIncomingStrike(this.player.getAttackDirection());
+      }
+    }
+  }
+  
+  // A guard on the side the player's blade comes from stops it, unless it is
+  // a riposte or the enemy is too tired to hold the guard
+  private blockedByEnemy(enemy: Enemy, hit: BodyHit): boolean {
+    if (!enemy.isBlocking() || this.player.isRiposting()) return false;
+    if (enemy.getGuardDirection() !== this.player.getAttackDirection()) return false;
+    if (!enemy.absorbBlockedHit()) return false;
+    
+    createSaberClashEffect(this.scene, hit.point, '#ffffff');
+    gameAudio.playSound('lightsaberClash', { volume: 0.9 });
+    this.markPlayerHitLanded();
+    return true;
+  }
+  
+  // Damage scaled by where the blade landed. Leg and sword-arm hits also
+  // hamper the target for a while, and every hit leaves a scar
+  private woundTarget(target: Player | Enemy, hit: BodyHit, baseDamage: number): number {
+    if (isLeg(hit.part)) target.woundLeg();
+    if (hit.part === swordArmOf(this.bodyOf(target), target.getLightsaberHiltPosition())) target.woundSwordArm();
+    this.createScarMark(target, hit.point);
+    return Math.round(baseDamage * LIMB_DAMAGE_MULTIPLIERS[hit.part]);
+  }
+  
+  private markPlayerHitLanded(): void {
+    // Mark that we've applied damage for this attack
+    this.player.setDamageAppliedInCurrentAttack(true);
+    
+    // Reset damage flag after a delay
+    setTimeout(() => {
+      this.player.setDamageAppliedInCurrentAttack(false);
+    }, 800);
+  }
+  
+  // Online opponents take no damage here; listeners report the hit to the
+  // server, which has the final say
+  private checkRemotePlayerHits(sweep: BladeSweep): void {
+    if (this.player.hasAppliedDamageInCurrentAttack()) return;
+    
+    for (const remotePlayer of this.getRemotePlayers()) {
+      if (remotePlayer.getIsReconnecting() || remotePlayer.getHealth() <= 0) continue;
+      
+      const hit = sweepBlade(sweep.previous, sweep.current, this.bodyOf(remotePlayer));
+      if (!hit) continue;
+      
+      createHitEffect(this.scene, hit.point, 0.1, 0xff0000);
+      this.emitBladeHit({ attacker: this.player, target: remotePlayer, part: hit.part, point: hit.point });
+      this.markPlayerHitLanded();
+      break;
+    }
   }
   
-  private checkPlayerAttacks(deltaTime: number): void {
+  private emitBladeHit(hit: BladeHitEvent): void {
+    this.bladeHitListeners.forEach(listener => listener(hit));
+  }
+  
+  private checkPlayerAttacks(sweep: BladeSweep): void {
     // Skip if player is not attacking or is dead
     if (!this.player.isAttacking() || !this.player.isAlive()) return;
     
@@ -168,9 +311,6 @@ export class CombatSystem {
     const playerLightsaber = this.player.getLightsaber();
     if (!playerLightsaber || !playerLightsaber.isActive()) return;
     
-    // Get player lightsaber position
-    const playerSaberPosition = this.player.getLightsaberPosition();
-    
     // Check for hits on each enemy
     for (const enemy of this.enemies) {
       // Skip if enemy just respawned
@@ -180,35 +320,26 @@ export class CombatSystem {
       // Skip if enemy is already dead
       if (!enemy.isAlive()) continue;
       
-      // Get enemy position (more precise - target the torso)
-      const enemyPosition = enemy.position.clone().add(new Vector3(0, 1.0, 0));
-      const distance = playerSaberPosition.distanceTo(enemyPosition);
-      
-      // Check if close enough to hit
-      if (distance < 1.5) {
-        console.log("⚔️ HIT ENEMY! Distance:", distance);
+      const hit = sweepBlade(sweep.previous, sweep.current, this.bodyOf(enemy));
+      if (hit) {
+        if (this.blockedByEnemy(enemy, hit)) break;
+        console.log(`⚔️ HIT ENEMY! ${hit.part} at`, hit.point);
         
         // Apply damage to enemy
-        const damage = 10;
-        enemy.takeDamage(damage);
-        
-        // Mark that we've applied damage for this attack
-        this.player.setDamageAppliedInCurrentAttack(true);
-        
-        // Reset damage flag after a delay
-        setTimeout(() => {
-          this.player.setDamageAppliedInCurrentAttack(false);
-        }, 800);
+        const damage = this.woundTarget(enemy, hit, this.playerSwingDamage(10));
+        enemy.takeDamage(damage, this.player.position, hit.point);
+        this.markPlayerHitLanded();
         
         // Create clash effect
         createSaberClashEffect(
           this.scene,
-          playerSaberPosition,
+          hit.point,
           '#3366ff'
         );
         
         // Play clash sound
         gameAudio.playSound('lightsaberClash', { volume: 0.8 });
+        this.emitBladeHit({ attacker: this.player, target: enemy, part: hit.part, point: hit.point });
         
         break; // Only hit one enemy per attack
       }
@@ -470,18 +601,14 @@ export class CombatSystem {
         scarMaterial
       );
       
-      // Position scar at hit point with slight randomization
-      const scarPosition = target.getPosition().clone();
-      scarPosition.y = 1.0 + Math.random() * 0.8; // Random height on body
-      scarPosition.x += (Math.random() - 0.5) * 0.3;
-      scarPosition.z += (Math.random() - 0.5) * 0.3;
-      
-      scarMesh.position.copy(scarPosition);
-      this.scene.add(scarMesh);
+      // Parented to the target so the scar stays on the limb as it moves
+      scarMesh.position.copy(target.worldToLocal(hitPosition.clone()));
+      target.add(scarMesh);
       
       // Fade out and remove after delay
       setTimeout(() => {
-        this.scene.remove(scarMesh);
+        target.remove(scarMesh);
+        scarMesh.geometry.dispose();
         scarMaterial.dispose();
       }, 3000);
     } catch (error) {
@@ -2,6 +2,22 @@ import { Group, Scene, Vector3, Mesh, BoxGeometry, MeshStandardMaterial, MeshBas
 import { Lightsaber } from './lightsaber';
 import { createSaberClashEffect, createHitEffect } from './effects';
 import gameAudio from './audio';
+import { LEG_WOUND, LimbWound, SWORD_ARM_WOUND } from './limbDamage';
+import { GUARD_BREAK_STAGGER, STAMINA_COSTS, Stamina } from './stamina';
+import { ATTACK_DIRECTIONS, AttackDirection } from './attackDirection';
+
+// Lightsaber.swingAt animation per strike direction: 0 and 3 horizontal from
+// either side, 1 vertical, 2 diagonal
+const SWING_TYPES: Record<AttackDirection, number> = {
+  left: 0,
+  right: 3,
+  overhead: 1,
+  stab: 2
+};
+
+// How long the side of a strike shows before the swing starts. The hit
+// window opens 0.1s into the swing, so the player gets half a second to guard
+const STRIKE_TELEGRAPH_TIME = 0.4;
 
 // Extend Three.js event types with our custom events
 declare global {
@@ -46,17 +62,24 @@ export class Enemy extends Group {
   private attackRange: number;
   private attackDamage: number;
   private velocity: Vector3 = new Vector3();
+  private legWound: LimbWound = new LimbWound();
+  private swordArmWound: LimbWound = new LimbWound();
+  private stamina: Stamina = new Stamina(100, 15);
   
   // Combat
   private lightsaber: Lightsaber;
   private attackCooldown: number = 0;
   private blockCooldown: number = 0;
+  private blockTimer: number = 0; // seconds left holding the current guard
+  private guardDirection: AttackDirection = 'overhead';
   private staggerTime: number = 0;
   private attacking: boolean = false;
   private blocking: boolean = false;
   private lastAttackTime: number = 0;
   private attackTimer: number = 0;
   private hasAppliedDamage: boolean = false;
+  private strikeDirection: AttackDirection = 'overhead'; // telegraphed from the wind-up to the end of the swing
+  private windUpTimer: number = 0; // seconds until a telegraphed strike is swung
   private state: EnemyState = EnemyState.IDLE;
   
   // AI
@@ -66,6 +89,13 @@ export class Enemy extends Group {
   private tooCloseRange: number = 1.5;
   private wanderTimer: number = 0;
   private wanderTarget: Vector3 = new Vector3();
+  private opponentStamina: number = 1; // fraction, as last reported to update()
+  private windedFraction: number = 0.25; // below this, back off (or, for the opponent, press in)
+  private pressingCooldown: number = 0.6; // longest wait between swings at a winded opponent
+  private blockChance: number = 0.5; // of raising a guard against a swing it sees coming
+  private misreadChance: number = 0.25; // of guarding the wrong side when it does
+  private blockHoldTime: number = 0.6;
+  private blockRecovery: number = 1.2; // before it reacts to another swing
   
   // Visuals
   private head: Mesh;
@@ -135,7 +165,7 @@ export class Enemy extends Group {
     this.name = "enemy";
   }
   
-  update(deltaTime: number, playerPosition: Vector3, playerDirection: Vector3): void {
+  update(deltaTime: number, playerPosition: Vector3, playerDirection: Vector3, playerStamina: number = 1): void {
     const previousY = this.position.y; // Store previous Y
     
     if (this.debugMode && Math.random() < 0.01) { // Example less frequent log
@@ -167,10 +197,20 @@ export class Enemy extends Group {
       this.targetPosition.copy(playerPosition);
     }
     
+    this.stamina.update(deltaTime);
+    this.opponentStamina = playerStamina;
+    
     // Process attack cooldown
     if (this.attackCooldown > 0) {
       this.attackCooldown -= deltaTime;
     }
+    if (this.blockCooldown > 0) {
+      this.blockCooldown -= deltaTime;
+    }
+    if (this.windUpTimer > 0) {
+      this.windUpTimer -= deltaTime;
+      if (this.windUpTimer <= 0) this.attack();
+    }
     
     // Process attack timer
     if (this.state === EnemyState.ATTACKING) {
@@ -236,10 +276,24 @@ export class Enemy extends Group {
       // Look at player
       this.lookAt(playerPosition);
       
-      // Move toward player if not too close
-      if (distanceToPlayer > this.tooCloseRange) {
+      // Guard up, or winding up a strike: hold ground facing the player
+      if (this.state === EnemyState.BLOCKING || this.windUpTimer > 0) return;
+      
+      // Out of breath: back off to just beyond reach until stamina recovers
+      const winded = this.stamina.getFraction() < this.windedFraction;
+      
+      // An exhausted player can't hold a guard for long, so don't give them time to recover
+      if (this.opponentStamina < this.windedFraction && this.attackCooldown > this.pressingCooldown) {
+        this.attackCooldown = this.pressingCooldown;
+      }
+      
+      if (winded && distanceToPlayer < this.attackRange * 1.5) {
+        this.position.addScaledVector(directionToPlayer, -this.getMoveSpeed() * 0.5 * deltaTime);
+        this.state = EnemyState.PURSUING; // Walking animation, just backwards
+      } else if (distanceToPlayer > this.tooCloseRange) {
+        // Move toward player if not too close
         // Move toward player
-        const moveSpeed = this.speed; // Base speed
+        const moveSpeed = this.getMoveSpeed();
         this.position.addScaledVector(directionToPlayer, moveSpeed * deltaTime);
         this.state = EnemyState.PURSUING; // Set state to trigger walking animation
         if (this.debugMode) console.log(`Enemy moving toward player: ${this.position.x.toFixed(2)}, ${this.position.z.toFixed(2)}`);
@@ -251,9 +305,9 @@ export class Enemy extends Group {
       }
       
       // CRITICAL FIX: Perform attack when in range and cooldown is ready
-      if (distanceToPlayer < this.attackRange && this.attackCooldown <= 0) {
+      if (!winded && distanceToPlayer < this.attackRange && this.attackCooldown <= 0) {
         console.log("Enemy initiating attack!");
-        this.attack(); // Attack handles setting ATTACKING state
+        this.windUp(); // The swing follows once the strike has been telegraphed
       }
     } else {
       // If player is out of range and not attacking/blocking/staggered, go idle
@@ -288,7 +342,7 @@ export class Enemy extends Group {
       
       // If we're not close to the target yet, move toward it
       if (this.position.distanceTo(this.wanderTarget) > 0.5) {
-        this.position.addScaledVector(directionToTarget, this.speed * 0.5 * deltaTime);
+        this.position.addScaledVector(directionToTarget, this.getMoveSpeed() * 0.5 * deltaTime);
         this.lookAt(this.wanderTarget);
       }
     }
@@ -299,6 +353,7 @@ export class Enemy extends Group {
     
     // Skip if dead or already attacking or cooling down
     if (this.state === EnemyState.DEAD || this.state === EnemyState.ATTACKING || this.attackCooldown > 0) return;
+    if (!this.stamina.trySpend(STAMINA_COSTS.lightAttack)) return;
     
     // Set state and timer
     this.state = EnemyState.ATTACKING;
@@ -318,7 +373,7 @@ export class Enemy extends Group {
     // Trigger lightsaber swing physics/animation
     if (this.lightsaber) {
       // Use swingAt for better control over enemy swing direction
-      this.lightsaber.swingAt(0, attackDirection); // 0 for standard swing type
+      this.lightsaber.swingAt(SWING_TYPES[this.strikeDirection], attackDirection);
     }
     
     // Play swing sound
@@ -328,7 +383,56 @@ export class Enemy extends Group {
     this.attackCooldown = 1.5 + Math.random() * 1.0; // Cooldown between 1.5s and 2.5s
   }
   
-  takeDamage(amount: number, attackerPosition: Vector3 = new Vector3()): void {
+  // Pick the side to come in from and show it before swinging, so the player
+  // has time to guard that side
+  private windUp(): void {
+    if (this.state === EnemyState.DEAD || this.state === EnemyState.ATTACKING || this.windUpTimer > 0) return;
+    
+    this.strikeDirection = ATTACK_DIRECTIONS[Math.floor(Math.random() * ATTACK_DIRECTIONS.length)];
+    this.windUpTimer = STRIKE_TELEGRAPH_TIME;
+  }
+  
+  /**
+   * The opponent has started a swing from `direction`. Sometimes the AI
+   * raises a guard against it, and sometimes it reads the wrong side; it
+   * can't while attacking, reeling, winded or still recovering from its
+   * last block.
+   */
+  readIncomingStrike(direction: AttackDirection): void {
+    if (this.state === EnemyState.DEAD || this.state === EnemyState.ATTACKING || this.state === EnemyState.STAGGERED) return;
+    if (this.windUpTimer > 0 || this.blockCooldown > 0 || this.stamina.getFraction() < this.windedFraction) return;
+    
+    this.blockCooldown = this.blockRecovery;
+    if (Math.random() >= this.blockChance) return;
+    
+    const misread = ATTACK_DIRECTIONS.filter(other => other !== direction);
+    this.guardDirection = Math.random() < this.misreadChance
+      ? misread[Math.floor(Math.random() * misread.length)]
+      : direction;
+    this.state = EnemyState.BLOCKING;
+    this.blocking = true;
+    this.blockTimer = this.blockHoldTime;
+    this.lightsaber.setBlocking(true);
+  }
+  
+  // Pays for a hit taken on the guard; when it can't, the guard breaks and
+  // the AI reels, and false means the strike goes through
+  absorbBlockedHit(): boolean {
+    if (this.stamina.trySpend(STAMINA_COSTS.blockedHit)) return true;
+    
+    this.stamina.drain();
+    this.applyStagger(GUARD_BREAK_STAGGER);
+    return false;
+  }
+  
+  private lowerGuard(): void {
+    if (!this.blocking) return;
+    this.blocking = false;
+    this.blockTimer = 0;
+    this.lightsaber.setBlocking(false);
+  }
+  
+  takeDamage(amount: number, attackerPosition: Vector3 = new Vector3(), hitPosition?: Vector3): void {
     // Skip if already dead
     if (this.state === EnemyState.DEAD) return;
     
@@ -337,7 +441,7 @@ export class Enemy extends Group {
     
     // Show damage visually
     this.flashDamageVisual();
-    this.addDamageVisual();
+    this.addDamageVisual(hitPosition);
     
     // Update the health bar UI
     const healthBar = document.getElementById('enemy-health-bar');
@@ -362,6 +466,8 @@ export class Enemy extends Group {
     }
     
     // Enter staggered state
+    this.lowerGuard();
+    this.windUpTimer = 0;
     this.state = EnemyState.STAGGERED;
     this.staggerTime = 0.5;
     
@@ -371,7 +477,8 @@ export class Enemy extends Group {
   
   private die(): void {
     this.state = EnemyState.DEAD;
-    this.blocking = false;
+    this.lowerGuard();
+    this.windUpTimer = 0;
     this.attacking = false;
     
     // Deactivate lightsaber
@@ -457,6 +564,10 @@ export class Enemy extends Group {
     }
   }
   
+  getLightsaber(): Lightsaber {
+    return this.lightsaber;
+  }
+  
   getSaberTipPosition(): Vector3 {
     const tipPosition = this.lightsaber.getSaberTipPosition();
     return tipPosition;
@@ -470,6 +581,11 @@ export class Enemy extends Group {
     return this.blocking;
   }
   
+  // The side the guard covers; only meaningful while blocking
+  getGuardDirection(): AttackDirection {
+    return this.guardDirection;
+  }
+  
   isAlive(): boolean {
     return this.state !== EnemyState.DEAD;
   }
@@ -483,7 +599,35 @@ export class Enemy extends Group {
   }
   
   getAttackDamage(count: number=1): number {
-    return this.attackDamage*count;
+    return this.attackDamage*count*this.swordArmWound.multiplier();
+  }
+  
+  // Limps for a while after a leg hit
+  woundLeg(): void {
+    this.legWound.inflict(LEG_WOUND.factor, LEG_WOUND.seconds);
+  }
+  
+  // Swings land softer for a while after a hit to the arm holding the saber
+  woundSwordArm(): void {
+    this.swordArmWound.inflict(SWORD_ARM_WOUND.factor, SWORD_ARM_WOUND.seconds);
+  }
+  
+  getAttackDirection(): AttackDirection {
+    return this.strikeDirection;
+  }
+  
+  // The side of the coming or current strike, or null when none is on its way
+  getTelegraphedDirection(): AttackDirection | null {
+    return this.windUpTimer > 0 || this.isAttacking() ? this.strikeDirection : null;
+  }
+  
+  // 0 when exhausted, 1 when fresh
+  getStaminaFraction(): number {
+    return this.stamina.getFraction();
+  }
+  
+  private getMoveSpeed(): number {
+    return this.speed * this.legWound.multiplier();
   }
   
   getAttackRange(): number {
@@ -561,7 +705,7 @@ export class Enemy extends Group {
     }
     
     // Move slower while strafing
-    const strafeSpeed = this.speed * 0.5 * deltaTime;
+    const strafeSpeed = this.getMoveSpeed() * 0.5 * deltaTime;
     this.position.add(strafeDir.multiplyScalar(strafeSpeed));
   }
   
@@ -587,7 +731,7 @@ export class Enemy extends Group {
       
       if (toTarget.length() > 0.1) {
         toTarget.normalize();
-        const wanderSpeed = this.speed * 0.3 * deltaTime;
+        const wanderSpeed = this.getMoveSpeed() * 0.3 * deltaTime;
         this.position.add(toTarget.multiplyScalar(wanderSpeed));
         
         // Face wander direction
@@ -605,10 +749,8 @@ export class Enemy extends Group {
     // Skip if the enemy is dead
     if (this.state === EnemyState.DEAD) return;
     
-    // Update attack timer if attacking
-    if (this.state === EnemyState.ATTACKING) {
-      this.attackTimer += deltaTime;
-    } else {
+    // update() advances the attack timer; it only restarts here
+    if (this.state !== EnemyState.ATTACKING) {
       this.attackTimer = 0;
     }
     
@@ -624,7 +766,12 @@ export class Enemy extends Group {
         break;
         
       case EnemyState.BLOCKING:
-        // Animation is handled by the block method
+        // The saber pose is set by readIncomingStrike; here the guard just runs out
+        this.blockTimer -= deltaTime;
+        if (this.blockTimer <= 0) {
+          this.lowerGuard();
+          this.state = EnemyState.IDLE;
+        }
         break;
         
       case EnemyState.STAGGERED:
@@ -679,6 +826,14 @@ export class Enemy extends Group {
     return position;
   }
 
+  getLightsaberHiltPosition(): Vector3 {
+    return this.lightsaber.getWorldPosition(new Vector3());
+  }
+
+  getLightsaberTipPosition(): Vector3 {
+    return this.lightsaber.getBladeTopPosition();
+  }
+
   // Implement missing playLightsaberClashSound method
   playLightsaberClashSound(): void {
     gameAudio.playSound('lightsaberClash', { volume: 0.8 });
@@ -687,6 +842,8 @@ export class Enemy extends Group {
   applyStagger(duration: number): void {
     if (this.state === EnemyState.DEAD) return;
     
+    this.lowerGuard();
+    this.windUpTimer = 0;
     this.state = EnemyState.STAGGERED;
     this.staggerTime = duration;
   }
@@ -698,6 +855,9 @@ export class Enemy extends Group {
     this.position.set(0, 0, -5); // Fixed spawn position
     this.rotation.set(0, Math.PI, 0);
     this.clearDamageVisuals();
+    this.legWound.heal();
+    this.swordArmWound.heal();
+    this.stamina.refill();
     this.lastRespawnTime = performance.now() / 1000; // Record respawn time
     
     // Dispatch proper event
@@ -721,8 +881,8 @@ export class Enemy extends Group {
     console.log("Enemy position reset to:", this.position);
   }
 
-  // Add a method to create visible damage marks
-  private addDamageVisual(): void {
+  // Add a method to create visible damage marks, where the blade landed if known
+  private addDamageVisual(hitPosition?: Vector3): void {
     if (this.damageMarks.length >= 5) return; // Limit number of damage marks
     
     // Create a glowing damage mark
@@ -735,6 +895,14 @@ export class Enemy extends Group {
     
     const damageMark = new Mesh(damageGeo, damageMat);
     
+    if (hitPosition) {
+      // Parented to the enemy, so the mark moves with it
+      damageMark.position.copy(this.worldToLocal(hitPosition.clone()));
+      this.add(damageMark);
+      this.damageMarks.push(damageMark);
+      return;
+    }
+    
     // Random position on body
     const bodyParts = [this.head, this.body, this.leftArm, this.rightArm];
     const targetPart = bodyParts[Math.floor(Math.random() * bodyParts.length)];
@@ -0,0 +1,166 @@
+import { Vector3 } from 'three';
+
+/**
+ * Continuous blade-vs-body hit detection. A body is a handful of limb
+ * capsules; a swing is the blade segment (hilt to tip) at the previous frame
+ * and at this one. Sweeping between the two catches fast swings that would
+ * pass clean through a limb between frames.
+ */
+
+export type BodyPart = 'head' | 'torso' | 'leftArm' | 'rightArm' | 'leftLeg' | 'rightLeg';
+
+export interface BladeSegment {
+  start: Vector3; // hilt
+  end: Vector3; // tip
+}
+
+export interface LimbCapsule {
+  part: BodyPart;
+  start: Vector3;
+  end: Vector3;
+  radius: number;
+}
+
+export interface BodyHit {
+  part: BodyPart;
+  point: Vector3; // on the surface of the limb, where the blade first touched it
+  sweepTime: number; // 0 at the previous frame's blade, 1 at this frame's
+}
+
+// Capsules for a standing humanoid with its feet at the origin, in metres.
+// x is to the body's right, y up; sized to the Enemy and RemotePlayer meshes.
+const BODY_LAYOUT: { part: BodyPart; start: [number, number]; end: [number, number]; radius: number }[] = [
+  { part: 'head', start: [0, 1.6], end: [0, 1.8], radius: 0.14 },
+  { part: 'torso', start: [0, 0.95], end: [0, 1.45], radius: 0.22 },
+  { part: 'leftArm', start: [-0.32, 1.5], end: [-0.32, 0.95], radius: 0.07 },
+  { part: 'rightArm', start: [0.32, 1.5], end: [0.32, 0.95], radius: 0.07 },
+  { part: 'leftLeg', start: [-0.12, 0.9], end: [-0.12, 0.08], radius: 0.09 },
+  { part: 'rightLeg', start: [0.12, 0.9], end: [0.12, 0.08], radius: 0.09 }
+];
+
+// Half the thickness of the blade mesh
+const BLADE_RADIUS = 0.03;
+
+// Longest move of the blade between two samples of the sweep. Shorter than
+// the thinnest limb plus the blade, so no sample can step over a limb.
+const SWEEP_STEP = 0.05;
+const MAX_SWEEP_STEPS = 64;
+
+const UP = new Vector3(0, 1, 0);
+
+/**
+ * Limb capsules for a body standing at `position` (its feet) and facing
+ * `facing`. Only the horizontal part of `facing` is used.
+ */
+export function bodyCapsules(position: Vector3, facing: Vector3): LimbCapsule[] {
+  const forward = new Vector3(facing.x, 0, facing.z);
+  if (forward.lengthSq() < 1e-8) forward.set(0, 0, -1);
+  forward.normalize();
+  const right = new Vector3().crossVectors(forward, UP);
+
+  const toWorld = ([side, height]: [number, number]) =>
+    position.clone().addScaledVector(right, side).setY(position.y + height);
+
+  return BODY_LAYOUT.map(({ part, start, end, radius }) => ({
+    part,
+    start: toWorld(start),
+    end: toWorld(end),
+    radius
+  }));
+}
+
+// Scratch space for closestPointsOnSegments
+const d1 = new Vector3();
+const d2 = new Vector3();
+const r = new Vector3();
+
+/**
+ * Closest points between segments p1-q1 and p2-q2, written to out1/out2.
+ * Returns the squared distance between them.
+ */
+function closestPointsOnSegments(
+  p1: Vector3, q1: Vector3, p2: Vector3, q2: Vector3, out1: Vector3, out2: Vector3
+): number {
+  d1.subVectors(q1, p1);
+  d2.subVectors(q2, p2);
+  r.subVectors(p1, p2);
+  const a = d1.dot(d1);
+  const e = d2.dot(d2);
+  const f = d2.dot(r);
+  let s: number;
+  let t: number;
+
+  if (a < 1e-12 && e < 1e-12) {
+    s = 0;
+    t = 0;
+  } else if (a < 1e-12) {
+    s = 0;
+    t = clamp01(f / e);
+  } else {
+    const c = d1.dot(r);
+    if (e < 1e-12) {
+      t = 0;
+      s = clamp01(-c / a);
+    } else {
+      const b = d1.dot(d2);
+      const denominator = a * e - b * b;
+      // Parallel segments: any s will do, start from the first one's start
+      s = denominator > 1e-12 ? clamp01((b * f - c * e) / denominator) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = clamp01(-c / a);
+      } else if (t > 1) {
+        t = 1;
+        s = clamp01((b - c) / a);
+      }
+    }
+  }
+
+  out1.copy(p1).addScaledVector(d1, s);
+  out2.copy(p2).addScaledVector(d2, t);
+  return out1.distanceToSquared(out2);
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Sweep the blade from `previous` to `current` and return where it first
+ * touches the body, or null if it never does. When it touches two limbs at
+ * once, the one it cuts deepest into wins.
+ */
+export function sweepBlade(previous: BladeSegment, current: BladeSegment, capsules: LimbCapsule[]): BodyHit | null {
+  const travel = Math.max(previous.start.distanceTo(current.start), previous.end.distanceTo(current.end));
+  const steps = Math.min(MAX_SWEEP_STEPS, Math.max(1, Math.ceil(travel / SWEEP_STEP)));
+
+  const start = new Vector3();
+  const end = new Vector3();
+  const onBlade = new Vector3();
+  const onLimb = new Vector3();
+
+  for (let i = 1; i <= steps; i++) {
+    const sweepTime = i / steps;
+    start.lerpVectors(previous.start, current.start, sweepTime);
+    end.lerpVectors(previous.end, current.end, sweepTime);
+
+    let best: BodyHit | null = null;
+    let bestDepth = 1;
+    for (const capsule of capsules) {
+      const reach = capsule.radius + BLADE_RADIUS;
+      const distance = Math.sqrt(closestPointsOnSegments(start, end, capsule.start, capsule.end, onBlade, onLimb));
+      const depth = distance / reach; // below 1 means touching; smaller is deeper
+      if (depth >= bestDepth) continue;
+
+      // Push out from the limb's axis towards the blade to land on its surface
+      const point = distance > 1e-6
+        ? onLimb.clone().addScaledVector(onBlade.clone().sub(onLimb).normalize(), capsule.radius)
+        : onLimb.clone();
+      best = { part: capsule.part, point, sweepTime };
+      bestDepth = depth;
+    }
+    if (best) return best;
+  }
+  return null;
+}
@@ -712,11 +712,11 @@ export class Lightsaber extends Group {
       const progress = Math.min(elapsed / swingDuration, 1);
       
       // More dramatic swing movement
-      // For horizontal swing (type 0)
-      if (type === 0) {
-        // Wide horizontal arc with sine easing
-        const swingRatio = Math.sin(progress * Math.PI);
-        this.rotation.z = originalRotation.z + (maxAngle * swingRatio * (progress < 0.5 ? -1 : 1));
+      // Horizontal swings (types 0 and 3) are mirror images: one sweeps
+      // across from one side, the other from the opposite side
+      if (type === 0 || type === 3) {
+        const side = type === 0 ? 1 : -1;
+        this.rotation.z = originalRotation.z + side * maxAngle * Math.cos(progress * Math.PI);
       } 
       // For vertical swing (type 1)
       else if (type === 1) {
@@ -0,0 +1,60 @@
+import { Vector3 } from 'three';
+import { BodyPart, LimbCapsule } from './hitDetection';
+
+/**
+ * What a hit does depending on where it lands: how much of the swing's
+ * damage gets through, and which limb stops working properly for a while.
+ */
+
+export const LIMB_DAMAGE_MULTIPLIERS: Record<BodyPart, number> = {
+  head: 2.0,
+  torso: 1.0,
+  leftArm: 0.6,
+  rightArm: 0.6,
+  leftLeg: 0.7,
+  rightLeg: 0.7
+};
+
+// A cut leg slows movement; a cut sword arm weakens swings
+export const LEG_WOUND = { factor: 0.6, seconds: 3 };
+export const SWORD_ARM_WOUND = { factor: 0.6, seconds: 4 };
+
+export function isLeg(part: BodyPart): boolean {
+  return part === 'leftLeg' || part === 'rightLeg';
+}
+
+/**
+ * The arm holding the blade: whichever arm capsule is nearer the hilt.
+ * Models disagree on which hand that is, so it is measured, not assumed.
+ */
+export function swordArmOf(capsules: LimbCapsule[], hilt: Vector3): BodyPart {
+  const reach = (part: BodyPart) => {
+    const arm = capsules.find(capsule => capsule.part === part);
+    return arm ? arm.start.clone().lerp(arm.end, 0.5).distanceTo(hilt) : Infinity;
+  };
+  return reach('leftArm') <= reach('rightArm') ? 'leftArm' : 'rightArm';
+}
+
+/**
+ * A temporary multiplier on a stat. Another wound before it heals restarts
+ * the clock and keeps the harsher factor.
+ */
+export class LimbWound {
+  private factor: number = 1;
+  private healsAt: number = 0;
+
+  inflict(factor: number, seconds: number, now: number = performance.now()): void {
+    this.factor = now < this.healsAt ? Math.min(this.factor, factor) : factor;
+    this.healsAt = now + seconds * 1000;
+  }
+
+  // 1 once healed
+  multiplier(now: number = performance.now()): number {
+    return now < this.healsAt ? this.factor : 1;
+  }
+
+  heal(): void {
+    this.factor = 1;
+    this.healsAt = 0;
+  }
+}
@@ -19,6 +19,11 @@ import {
 import { Lightsaber } from './lightsaber';
 import gameAudio from './audio';
 import { createHitEffect } from './effects';
+import { LEG_WOUND, LimbWound, SWORD_ARM_WOUND } from './limbDamage';
+import { GUARD_BREAK_STAGGER, STAMINA_COSTS, Stamina } from './stamina';
+import { AttackDirection, MouseDirectionTracker } from './attackDirection';
+import { clampToArena } from '../network/movement';
+import type { MovementInput, MovementState } from '../network/movement';
 
 // Extend Three.js event types with our custom events
 declare global {
@@ -62,6 +67,8 @@ export class Player extends Group {
   private isAttackPressed: boolean = false;
   private isHeavyAttackPressed: boolean = false;
   private isBlockPressed: boolean = false;
+  private jumpedThisFrame: boolean = false; // reported in the next network input
+  private isNetworked: boolean = false; // movement must then follow the shared rules in movement.ts
   
   private camera: Camera;
   private lightsaber: Lightsaber;
@@ -85,6 +92,9 @@ export class Player extends Group {
   private playerModel: Group | null = null;
   private lightsaberOffset: Vector3 = new Vector3(0.09, -0.49, -0.75);
   private damageAppliedInCurrentAttack: boolean = false;
+  private legWound: LimbWound = new LimbWound();
+  private swordArmWound: LimbWound = new LimbWound();
+  private stamina: Stamina = new Stamina();
   public clickedOnUI: boolean = false;
   
   // Add mouse position tracking
@@ -128,6 +138,19 @@ export class Player extends Group {
   public score: number = 0;
   private isBlocking: boolean = false;
   
+  // A block raised this soon (seconds) before a strike lands parries it, and
+  // an attack started within riposteWindow of the parry is a riposte. Both
+  // are set per stance
+  private parryWindow: number = 0.2;
+  private riposteWindow: number = 1.0;
+  private riposteUntil: number = 0;
+  private isRiposteAttack: boolean = false;
+  
+  // Swings and guards take their direction from the last mouse flick
+  private mouseFlicks: MouseDirectionTracker = new MouseDirectionTracker();
+  private attackDirection: AttackDirection = 'overhead';
+  private guardDirection: AttackDirection = 'overhead';
+  
   // Add these to Player class properties
   private currentStance: number = 1; // Default to Form I
   private stances = [
@@ -271,8 +294,10 @@ export class Player extends Group {
         this.isAttackPressed = true;
       } else if (event.button === 2) { // Right click - Block
         console.log("Right click - block triggered");
+        if (!this.isBlockPressed) this.lastBlockTime = performance.now() / 1000;
+        this.guardDirection = this.mouseFlicks.read() ?? this.guardDirection;
         this.isBlockPressed = true;
-        this.state = PlayerState.BLOCKING;
+        if (this.state !== PlayerState.STAGGERED) this.state = PlayerState.BLOCKING;
       }
     });
     
@@ -292,6 +317,10 @@ export class Player extends Group {
     document.addEventListener('mousemove', (event) => {
       this.mousePosition.x = (event.clientX / window.innerWidth) * 2 - 1;
       this.mousePosition.y = -(event.clientY / window.innerHeight) * 2 + 1;
+      
+      // A flick while blocking moves the guard to that side
+      this.mouseFlicks.addMovement(event.movementX, event.movementY);
+      if (this.isBlocking) this.guardDirection = this.mouseFlicks.read() ?? this.guardDirection;
     });
     
     console.log("Input listeners initialized");
@@ -319,6 +348,8 @@ export class Player extends Group {
     // Skip further updates if player is dead
     if (this.state === PlayerState.DEAD) return;
     
+    this.stamina.update(deltaTime);
+    
     // Process movement input and update vectors
     this.updateMovement(deltaTime);
     
@@ -356,6 +387,7 @@ export class Player extends Group {
   private updateMovement(deltaTime: number): void {
     // Reset movement vector
     this.moveDirection.set(0, 0, 0);
+    this.jumpedThisFrame = false;
     
     // Calculate camera direction vectors for movement relative to camera
     const cameraDirection = new Vector3();
@@ -415,8 +447,10 @@ export class Player extends Group {
       this.state = PlayerState.IDLE;
     }
     
-    // Calculate speed (can be adjusted based on player state)
-    const speed = this.isCrouching ? this.moveSpeed * 0.5 : this.moveSpeed;
+    // Calculate speed (can be adjusted based on player state). The server
+    // knows nothing of leg wounds, so they only slow us offline
+    const baseSpeed = this.isCrouching ? this.moveSpeed * 0.5 : this.moveSpeed;
+    const speed = this.isNetworked ? baseSpeed : baseSpeed * this.legWound.multiplier();
     
     // Set horizontal velocity components based on movement direction
     this.velocity.x = this.moveDirection.x * speed;
@@ -427,17 +461,21 @@ export class Player extends Group {
       this.velocity.y -= this.gravity * deltaTime;
     }
     
-    // Apply jumping force if jump was requested
+    // Apply jumping force if jump was requested and we have the legs for it.
+    // Online the server lets any grounded player jump, so stamina can't stop it
     if (this.isJumpPressed && this.isGrounded) {
-      this.velocity.y = this.jumpForce;
-      this.isGrounded = false;
-      this.isJumping = true;
       this.isJumpPressed = false;
+      if (this.isNetworked || this.stamina.trySpend(STAMINA_COSTS.jump)) {
+        this.velocity.y = this.jumpForce;
+        this.isGrounded = false;
+        this.isJumping = true;
+        this.jumpedThisFrame = true;
+      }
     }
     
-    // Apply velocity to position
-    this.position.x += this.velocity.x * deltaTime;
-    this.position.z += this.velocity.z * deltaTime;
+    // Apply velocity to position, staying on the floor like the server does
+    this.position.x = clampToArena(this.position.x + this.velocity.x * deltaTime);
+    this.position.z = clampToArena(this.position.z + this.velocity.z * deltaTime);
     this.position.y += this.velocity.y * deltaTime;
   }
   
@@ -502,7 +540,12 @@ export class Player extends Group {
    */
   private attack(isHeavy: boolean = false): void {
     // Don't attack if in certain states
-    if (this.state === PlayerState.DEAD || this.state === PlayerState.BLOCKING) {
+    if (this.state === PlayerState.DEAD || this.state === PlayerState.BLOCKING || this.state === PlayerState.STAGGERED) {
+      return;
+    }
+    
+    // Too winded to swing
+    if (!this.stamina.trySpend(isHeavy ? STAMINA_COSTS.heavyAttack : STAMINA_COSTS.lightAttack)) {
       return;
     }
     
@@ -513,6 +556,13 @@ export class Player extends Group {
     this.damageAppliedInCurrentAttack = false;
     this.currentAttackType = isHeavy ? 'heavy' : 'light';
     
+    // Flick the mouse before clicking to pick the side; a still mouse swings overhead
+    this.attackDirection = this.mouseFlicks.read() ?? 'overhead';
+    
+    // The first swing after a parry is the riposte; swinging late wastes it
+    this.isRiposteAttack = performance.now() / 1000 < this.riposteUntil;
+    this.riposteUntil = 0;
+    
     // Set cooldown
     this.lastAttackTime = isHeavy ? this.attackCooldown * 1.5 : this.attackCooldown;
     
@@ -520,7 +570,8 @@ export class Player extends Group {
     gameAudio.playSound('saberSwing', 0.5);
   }
   
-  public takeDamage(amount: number, attackerPosition?: Vector3): void {
+  // throughGuard: the strike got past a guard on the wrong side, so blocking doesn't soften it
+  public takeDamage(amount: number, attackerPosition?: Vector3, throughGuard: boolean = false): void {
     console.log(`[PLAYER] Taking ${amount} damage from position:`, attackerPosition || 'unknown');
     console.log(`[PLAYER] Current health before damage: ${this.health}`);
     
@@ -531,7 +582,7 @@ export class Player extends Group {
     }
     
     // Check if we're blocking
-    if (this.state === PlayerState.BLOCKING) {
+    if (this.state === PlayerState.BLOCKING && !throughGuard) {
       console.log("[PLAYER] Blocking! Damage reduced");
       amount = Math.floor(amount * 0.2); // 80% damage reduction when blocking
     }
@@ -603,6 +654,19 @@ export class Player extends Group {
     this.damageAppliedInCurrentAttack = applied;
   }
   
+  // Fraction of full damage our swings deal; less while the sword arm is hurt
+  public getAttackStrength(): number {
+    return this.swordArmWound.multiplier();
+  }
+  
+  public woundLeg(): void {
+    this.legWound.inflict(LEG_WOUND.factor, LEG_WOUND.seconds);
+  }
+  
+  public woundSwordArm(): void {
+    this.swordArmWound.inflict(SWORD_ARM_WOUND.factor, SWORD_ARM_WOUND.seconds);
+  }
+  
   public getLightsaberPosition(): Vector3 {
     if (!this.lightsaber) return this.position.clone(); // Fallback
     // Return the world position of the saber tip
@@ -1047,6 +1111,10 @@ export class Player extends Group {
     // Reset position
     this.position.set(0, 0.1, 0);
     this.velocity.set(0, 0, 0);
+    this.legWound.heal();
+    this.swordArmWound.heal();
+    this.riposteUntil = 0;
+    this.stamina.refill();
     
     // Reset all movement flags
     this.isForwardPressed = false;
@@ -1335,26 +1403,33 @@ export class Player extends Group {
     else if (slashType === "vertical-downward" || slashType === "heavy-vertical") {
       this.handleVerticalSlash(attackProgress, progressRadians, basePosition);
     }
+    else if (slashType === "stab") {
+      this.handleStab(progressRadians, basePosition);
+    }
     else {
       this.handleHorizontalSlash(slashType, attackProgress, progressRadians, basePosition);
     }
   }
 
-  // Determine slash type based on movement 
+  // Determine slash type from the direction picked when the attack started
   private determineSlashType(): string {
-    let slashType = "neutral";
-    
-    if (this.isLeftPressed) {
-      slashType = "diagonal-right-to-left";
-    } else if (this.isRightPressed) {
-      slashType = "diagonal-left-to-right";
-    } else if (this.isForwardPressed) {
-      slashType = "vertical-downward";
-    } else {
-      slashType = this.currentAttackType === 'heavy' ? "heavy-vertical" : "vertical-downward";
+    switch (this.attackDirection) {
+      case 'left':
+        return "diagonal-right-to-left";
+      case 'right':
+        return "diagonal-left-to-right";
+      case 'stab':
+        return "stab";
+      default:
+        return this.currentAttackType === 'heavy' ? "heavy-vertical" : "vertical-downward";
     }
-    
-    return slashType;
+  }
+
+  // Thrust straight out and back, blade level and pointing away from the camera
+  private handleStab(progressRadians: number, basePosition: Vector3): void {
+    this.lightsaber.position.copy(basePosition);
+    this.lightsaber.position.z -= Math.sin(progressRadians) * 0.5;
+    this.lightsaber.rotation.set(-Math.PI / 2, 0, 0);
   }
 
   // Final vertical slash adjustment - natural ending position
@@ -1608,7 +1683,8 @@ export class Player extends Group {
 
   // Add methods to handle blocking
   private updateBlocking(deltaTime: number): void {
-    if (this.isBlockPressed && this.state !== PlayerState.ATTACKING) {
+    // A staggered player can't raise their guard, e.g. after it was broken
+    if (this.isBlockPressed && this.state !== PlayerState.ATTACKING && this.state !== PlayerState.STAGGERED) {
       // Enter blocking state
       if (this.state !== PlayerState.BLOCKING) {
         console.log("Entering blocking state");
@@ -1684,6 +1760,48 @@ export class Player extends Group {
     return this.isBlocking;
   }
 
+  // Blocking, and the block went up recently enough to turn a strike aside
+  public isParrying(): boolean {
+    return this.isBlocking && performance.now() / 1000 - this.lastBlockTime <= this.parryWindow;
+  }
+
+  // Called when a parry lands: the next attack soon after is a riposte
+  public openRiposte(): void {
+    this.riposteUntil = performance.now() / 1000 + this.riposteWindow;
+  }
+
+  public getAttackDirection(): AttackDirection {
+    return this.attackDirection;
+  }
+
+  // The side the block covers; only meaningful while blocking
+  public getGuardDirection(): AttackDirection {
+    return this.guardDirection;
+  }
+
+  public isRiposting(): boolean {
+    return this.isAttacking() && this.isRiposteAttack;
+  }
+
+  // Pays for a hit taken on the guard; false means there was not enough
+  // stamina left and the guard should break
+  public absorbBlockedHit(): boolean {
+    return this.stamina.trySpend(STAMINA_COSTS.blockedHit);
+  }
+
+  // The guard gives way: blocking stops and the player reels for a while
+  public guardBreak(): void {
+    this.stamina.drain();
+    this.isBlocking = false;
+    this.resetLightsaberPosition();
+    this.applyStagger(GUARD_BREAK_STAGGER);
+  }
+
+  // 0 when exhausted, 1 when fresh
+  public getStaminaFraction(): number {
+    return this.stamina.getFraction();
+  }
+
   // Add to the end of the constructor
   setupStanceSystem() {
     console.log("Setting up stance system...");
@@ -1703,6 +1821,10 @@ export class Player extends Group {
     console.log("Stance system initialized");
   }
 
+  public getStance(): number {
+    return this.currentStance;
+  }
+
   // Method to change stance
   public setStance(stanceId: number): void {
     if (stanceId < 1 || stanceId > 7) return;
@@ -1716,36 +1838,50 @@ export class Player extends Group {
         this.attackSpeed = 1.0;
         this.attackDamage = 8;
         this.blockEffectiveness = 0.7;
+        this.parryWindow = 0.2;
+        this.riposteWindow = 1.0;
         break;
       case 2: // Makashi
         this.attackSpeed = 1.2;
         this.attackDamage = 7;
         this.blockEffectiveness = 0.6;
+        this.parryWindow = 0.3;
+        this.riposteWindow = 1.2;
         break;
       case 3: // Soresu
         this.attackSpeed = 0.8;
         this.attackDamage = 6;
         this.blockEffectiveness = 0.9;
+        this.parryWindow = 0.35;
+        this.riposteWindow = 0.8;
         break;
       case 4: // Ataru
         this.attackSpeed = 1.3;
         this.attackDamage = 9;
         this.blockEffectiveness = 0.5;
+        this.parryWindow = 0.15;
+        this.riposteWindow = 1.0;
         break;
       case 5: // Djem So
         this.attackSpeed = 0.9;
         this.attackDamage = 10;
         this.blockEffectiveness = 0.8;
+        this.parryWindow = 0.25;
+        this.riposteWindow = 1.5;
         break;
       case 6: // Niman
         this.attackSpeed = 1.0;
         this.attackDamage = 8;
         this.blockEffectiveness = 0.7;
+        this.parryWindow = 0.2;
+        this.riposteWindow = 1.0;
         break;
       case 7: // Juyo
         this.attackSpeed = 1.4;
         this.attackDamage = 12;
         this.blockEffectiveness = 0.4;
+        this.parryWindow = 0.1;
+        this.riposteWindow = 1.2;
         break;
     }
     
@@ -1845,24 +1981,99 @@ export class Player extends Group {
   public getLightsaberTipPosition(): Vector3 {
     if (!this.lightsaber) return this.position.clone(); // Fallback
     
-    // Get world position of hilt
-    const hiltPosition = this.getLightsaberHiltPosition();
-    
-    // Add direction vector scaled by blade length
-    const bladeDirection = new Vector3(0, 1, 0); // Assumes blade points up in local space
-    bladeDirection.applyQuaternion(this.lightsaber.quaternion);
-    bladeDirection.normalize();
-    
-    // Estimate blade length (or get from lightsaber if exposed)
-    const bladeLength = 1.0; 
-    
-    // Return tip position
-    return hiltPosition.clone().add(bladeDirection.multiplyScalar(bladeLength));
+    // The blade follows the camera in first person, so go through the world matrix
+    return this.lightsaber.getBladeTopPosition();
   }
 
   // Add getter for public state access
   public getState(): PlayerState {
     return this.state;
   }
+  
+  // What the last update() did with the controls, for the network input command
+  public getMovementInput(): MovementInput {
+    if (this.state === PlayerState.DEAD) {
+      return { moveX: 0, moveZ: 0, jump: false, crouch: false };
+    }
+    return {
+      moveX: this.moveDirection.x,
+      moveZ: this.moveDirection.z,
+      jump: this.jumpedThisFrame,
+      crouch: this.isCrouching
+    };
+  }
+  
+  // Online, prediction has to step exactly as the server's stepMovement does
+  public setNetworked(networked: boolean): void {
+    this.isNetworked = networked;
+  }
+  
+  /**
+   * Adopt the server-reconciled movement state. Prediction runs the same
+   * rules as the server, so this is usually a no-op; a real mismatch (a hitch,
+   * a round reset, a rejected move) snaps us to where the server has us.
+   */
+  public applyServerCorrection(state: MovementState): void {
+    const dx = state.position.x - this.position.x;
+    const dy = state.position.y - this.position.y;
+    const dz = state.position.z - this.position.z;
+    if (dx * dx + dy * dy + dz * dz < 1e-6) return;
+    
+    this.position.set(state.position.x, state.position.y, state.position.z);
+    this.velocity.y = state.velocityY;
+    this.isGrounded = state.grounded;
+    this.isJumping = !state.grounded;
+  }
+
+  /**
+   * Online the server owns health. A reported hit sets it outright, and a
+   * defeat puts us down until the next round starts instead of respawning.
+   */
+  public applyServerHealth(health: number): void {
+    if (this.state === PlayerState.DEAD) return;
+
+    if (health < this.health) {
+      createHitEffect(this.scene, this.position.clone().add(new Vector3(0, 1.2, 0)), 0xff0000);
+      gameAudio.playSound('playerHit', { volume: 0.7 });
+    }
+    this.health = Math.max(0, Math.min(this.maxHealth, health));
+    this.dispatchHealthChanged();
+  }
+
+  public applyServerDefeat(): void {
+    if (this.state === PlayerState.DEAD) return;
+
+    this.health = 0;
+    this.state = PlayerState.DEAD;
+    this.velocity.set(0, 0, 0);
+    this.dispatchHealthChanged();
+  }
+
+  // A new round: full health and a fresh body. The server's movement ack moves us to our spawn
+  public resetForRound(): void {
+    this.health = this.maxHealth;
+    this.state = PlayerState.IDLE;
+    this.isBlocking = false;
+    this.velocity.set(0, 0, 0);
+    this.legWound.heal();
+    this.swordArmWound.heal();
+    this.riposteUntil = 0;
+    this.stamina.refill();
+
+    if (this.lightsaber) {
+      this.resetLightsaberPosition();
+      this.lightsaber.activate();
+    }
+    this.dispatchHealthChanged();
+  }
+
+  private dispatchHealthChanged(): void {
+    window.dispatchEvent(new CustomEvent('playerHealthChanged', {
+      detail: {
+        health: this.health,
+        maxHealth: this.maxHealth
+      }
+    }));
+  }
 }
 
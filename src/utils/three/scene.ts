@@ -22,6 +22,7 @@ import {
   AxesHelper,
   GridHelper,
   SphereGeometry,
+  Quaternion,
 } from 'three';
 import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
 import { Player } from './player';
@@ -29,6 +30,19 @@ import { Enemy } from './enemy';
 import { CombatSystem } from './combat';
 import gameAudio from './audio';
 import { createClashEffect, closestPointsBetweenLines } from './combat';
+import { RemotePlayer } from './RemotePlayer';
+import { SpectatorCamera } from './spectatorCamera';
+import { NetworkManager, NetworkPlayer } from '../network/NetworkManager';
+import { BotController, BotTarget } from '../network/BotController';
+import type { AttackDirection } from './attackDirection';
+
+// How an incoming strike is drawn around the crosshair: an arrow on the side it comes from
+const TELEGRAPH_MARKERS: Record<AttackDirection, { glyph: string; x: number; y: number }> = {
+  left: { glyph: '◀', x: -80, y: 0 },
+  right: { glyph: '▶', x: 80, y: 0 },
+  overhead: { glyph: '▼', x: 0, y: -80 },
+  stab: { glyph: '◎', x: 0, y: 0 }
+};
 
 export class GameScene {
   private container: HTMLElement;
@@ -47,6 +61,16 @@ export class GameScene {
   private backgroundMusic: any = null;
   private debugMode: boolean = true; // Default to true
   private frameCount: number = 0;
+  private isSpectating: boolean = false;
+  private spectatorCamera: SpectatorCamera | null = null;
+  private remotePlayers: Map<string, RemotePlayer> = new Map();
+  private spectatorHud: HTMLDivElement | null = null;
+  private botController: BotController | null = null; // set while we host a room with bots
+  private stopBotRoundListener: (() => void) | null = null;
+  private remotePlayerListeners: (() => void)[] = []; // unsubscribers from trackRemotePlayers
+  private isOnline: boolean = false; // playing in a multiplayer room
+  private inputScratch: Vector3 = new Vector3();
+  private telegraphIndicator: HTMLDivElement | null = null;
   
   constructor(
     container: HTMLElement,
@@ -351,11 +375,21 @@ export class GameScene {
     }
     this.frameCount++;
 
+    // Spectators only watch the networked combatants
+    if (this.isSpectating) {
+      this.remotePlayers.forEach(remotePlayer => remotePlayer.update(deltaTime));
+      this.spectatorCamera?.update(deltaTime);
+      this.renderer.render(this.scene, this.camera);
+      return;
+    }
+
     try {
       // Update game objects
       if (this.player) {
         try {
+          if (this.isOnline) this.reconcileLocalPlayer();
           this.player.update(deltaTime);
+          if (this.isOnline) this.sendLocalInput(deltaTime);
         } catch (playerUpdateError) {
           console.error("Error during player.update:", playerUpdateError);
           this.isAnimating = false; // Stop on error
@@ -366,7 +400,7 @@ export class GameScene {
       this.enemies.forEach(enemy => {
         if (enemy && this.player) {
           try {
-            enemy.update(deltaTime, this.player.position, this.player.getWorldDirection(new Vector3()));
+            enemy.update(deltaTime, this.player.position, this.player.getWorldDirection(new Vector3()), this.player.getStaminaFraction());
           } catch (enemyUpdateError) {
             console.error(`Error during enemy.update (ID: ${enemy.id}):`, enemyUpdateError);
             this.isAnimating = false; // Stop on error
@@ -377,6 +411,9 @@ export class GameScene {
       });
       // Check isAnimating again in case enemy update stopped it
       if (!this.isAnimating) return; 
+      
+      this.botController?.update(deltaTime);
+      this.remotePlayers.forEach(remotePlayer => remotePlayer.update(deltaTime));
 
       if (this.combatSystem) {
         try {
@@ -390,6 +427,9 @@ export class GameScene {
 
       // Add an enhanced collision detection system
       this.checkLightsaberCollisions(deltaTime);
+      
+      this.updateStaminaBars();
+      this.updateTelegraphIndicator();
     } catch (updatePhaseError) {
       // Catch any unexpected errors during the update phase logic itself
       console.error("Error during main update phase:", updatePhaseError);
@@ -463,6 +503,15 @@ export class GameScene {
       // Clean up audio
       gameAudio.stopAll();
       
+      if (this.spectatorCamera) {
+        this.spectatorCamera.disable();
+        this.spectatorCamera = null;
+      }
+      this.spectatorHud?.remove();
+      this.stopHostingBots();
+      this.remotePlayerListeners.forEach(unsubscribe => unsubscribe());
+      this.remotePlayerListeners = [];
+      
       // Dispose of all materials and geometries
       this.scene.traverse((object) => {
         if (object instanceof Mesh) {
@@ -492,6 +541,273 @@ export class GameScene {
     }
   }
   
+  /**
+   * Switch to watching the current multiplayer room instead of playing:
+   * the local player and AI are removed and the camera detaches to follow
+   * (or fly freely around) the networked combatants.
+   */
+  public startSpectating(): void {
+    if (this.isSpectating) return;
+    this.isSpectating = true;
+    
+    const networkManager = NetworkManager.getInstance();
+    
+    // Take the local duel out of the scene, keeping the camera where it is
+    this.scene.attach(this.camera);
+    this.scene.remove(this.player);
+    this.enemies.forEach(enemy => this.scene.remove(enemy));
+    document.getElementById('duel-health-container')?.remove();
+    
+    this.spectatorCamera = new SpectatorCamera(this.camera);
+    this.spectatorCamera.onChange(() => this.updateSpectatorHud());
+    this.spectatorCamera.enable();
+    this.createSpectatorHud();
+    
+    this.trackRemotePlayers(() => {
+      this.spectatorCamera?.setTargets(Array.from(this.remotePlayers.values()));
+      this.updateSpectatorHud();
+    });
+    
+    console.log(`Spectating room ${networkManager.getRoomId()} with ${this.remotePlayers.size} combatants`);
+  }
+  
+  /**
+   * Play in the current multiplayer room. The offline AI leaves the arena,
+   * the other combatants appear as RemotePlayers, and each frame the local
+   * player's controls go to the server as an input command while their
+   * movement is predicted here and reconciled against the server's acks.
+   */
+  public startOnlinePlay(): void {
+    if (this.isOnline || this.isSpectating) return;
+    this.isOnline = true;
+    this.player.setNetworked(true);
+    
+    this.enemies.forEach(enemy => this.scene.remove(enemy));
+    this.enemies = [];
+    this.combatSystem.clearEnemies();
+    this.trackRemotePlayers();
+    
+    // Whoever hosts the room simulates its bots; that can pass to us mid-match
+    this.updateBotHosting();
+    this.remotePlayerListeners.push(NetworkManager.getInstance().onHostChanged(() => this.updateBotHosting()));
+    this.trackLocalPlayer();
+
+    // Our blade landing on another combatant is reported; the server decides the damage
+    this.combatSystem.setRemotePlayers(() => Array.from(this.remotePlayers.values()));
+    this.combatSystem.onBladeHit(({ target }) => {
+      if (target instanceof RemotePlayer) NetworkManager.getInstance().sendPlayerHit(target.getId());
+    });
+    
+    console.log(`Playing online in room ${NetworkManager.getInstance().getRoomId()}`);
+  }
+  
+  // The server decides our health too: its hits, defeats and round resets land on the local player
+  private trackLocalPlayer(): void {
+    const networkManager = NetworkManager.getInstance();
+    const isLocal = (playerId: string) => playerId === networkManager.getPlayerId();
+
+    this.remotePlayerListeners.push(networkManager.onPlayerDamaged(({ playerId, health }) => {
+      if (isLocal(playerId)) this.player.applyServerHealth(health);
+    }));
+
+    this.remotePlayerListeners.push(networkManager.onPlayerDefeated((playerId) => {
+      if (isLocal(playerId)) this.player.applyServerDefeat();
+    }));
+
+    this.remotePlayerListeners.push(networkManager.onRoundStarted(({ players }) => {
+      if (players.some(player => isLocal(player.id))) this.player.resetForRound();
+    }));
+  }
+
+  // Fold in the latest server acknowledgement before this frame's prediction step
+  private reconcileLocalPlayer(): void {
+    const corrected = NetworkManager.getInstance().reconcileMovement();
+    if (corrected) this.player.applyServerCorrection(corrected);
+  }
+  
+  private sendLocalInput(deltaTime: number): void {
+    const networkManager = NetworkManager.getInstance();
+    const movement = this.player.getMovementInput();
+    
+    this.camera.getWorldDirection(this.inputScratch);
+    const yaw = Math.atan2(-this.inputScratch.x, -this.inputScratch.z);
+    
+    const saberOffset = this.player.getLightsaberHiltPosition().sub(this.player.position);
+    const saberRotation = new Quaternion();
+    this.player.getLightsaber()?.getWorldQuaternion(saberRotation);
+    
+    networkManager.sendPlayerInput({
+      dt: deltaTime,
+      ...movement,
+      yaw,
+      saberOffset: { x: saberOffset.x, y: saberOffset.y, z: saberOffset.z },
+      saberRotation: { x: saberRotation.x, y: saberRotation.y, z: saberRotation.z, w: saberRotation.w },
+      isAttacking: this.player.isAttacking(),
+      isBlocking: this.player.isPlayerBlocking(),
+      stance: this.player.getStance(),
+      attackType: this.player.getCurrentAttackType()
+    });
+  }
+  
+  // Mirror the room's other combatants as RemotePlayers; onChange fires when
+  // someone joins, leaves or takes damage
+  private trackRemotePlayers(onChange: () => void = () => {}): void {
+    const networkManager = NetworkManager.getInstance();
+    networkManager.getRemotePlayers().forEach(player => this.addRemotePlayer(player));
+    onChange();
+    
+    this.remotePlayerListeners.push(networkManager.onPlayerJoined(({ players }) => {
+      players.forEach(player => {
+        if (!this.remotePlayers.has(player.id)) this.addRemotePlayer(player);
+      });
+      onChange();
+    }));
+    
+    this.remotePlayerListeners.push(networkManager.onPlayerUpdated((data) => {
+      this.remotePlayers.get(data.playerId)?.updateFromNetwork(
+        data.position,
+        data.rotation,
+        data.lightsaberPosition,
+        data.lightsaberRotation,
+        data.isAttacking,
+        data.isBlocking,
+        networkManager.toLocalTime(data.timestamp)
+      );
+    }));
+    
+    this.remotePlayerListeners.push(networkManager.onPlayerDamaged(({ playerId, health }) => {
+      this.remotePlayers.get(playerId)?.setHealth(health);
+      onChange();
+    }));
+    
+    this.remotePlayerListeners.push(networkManager.onPlayerDisconnected(({ playerId }) => {
+      this.remotePlayers.get(playerId)?.setReconnecting(true);
+    }));
+    
+    this.remotePlayerListeners.push(networkManager.onPlayerReconnected(({ playerId }) => {
+      this.remotePlayers.get(playerId)?.setReconnecting(false);
+    }));
+    
+    this.remotePlayerListeners.push(networkManager.onPlayerLeft(({ playerId }) => {
+      const remotePlayer = this.remotePlayers.get(playerId);
+      if (!remotePlayer) return;
+      this.scene.remove(remotePlayer);
+      this.remotePlayers.delete(playerId);
+      onChange();
+    }));
+    
+    // Quick-chat emotes play as gestures on the sender's model
+    this.remotePlayerListeners.push(networkManager.onChatMessage(({ playerId, emote }) => {
+      if (emote) this.remotePlayers.get(playerId)?.playEmote(emote);
+    }));
+  }
+  
+  /**
+   * As host of a multiplayer room, simulate the room's bots with the same
+   * Enemy AI used offline. They hunt the local player and the other
+   * combatants, and are streamed to the server like any other player.
+   */
+  public startHostingBots(): void {
+    if (this.botController) return;
+    
+    const networkManager = NetworkManager.getInstance();
+    this.botController = new BotController(this.scene, () => this.getBotTargets());
+    this.stopBotRoundListener = networkManager.onRoundStarted(({ players }) => this.botController?.resetToSpawns(players));
+  }
+  
+  // The new host takes the bots over; ours leave the scene
+  public stopHostingBots(): void {
+    this.stopBotRoundListener?.();
+    this.stopBotRoundListener = null;
+    this.botController?.dispose();
+    this.botController = null;
+  }
+  
+  private updateBotHosting(): void {
+    if (NetworkManager.getInstance().isGameHost()) {
+      this.startHostingBots();
+    } else {
+      this.stopHostingBots();
+    }
+  }
+  
+  private getBotTargets(): BotTarget[] {
+    const networkManager = NetworkManager.getInstance();
+    const targets: BotTarget[] = [];
+    
+    if (this.player) {
+      targets.push({
+        id: networkManager.getPlayerId(),
+        position: this.player.position,
+        direction: this.player.getDirection(),
+        team: networkManager.getTeam(),
+        isAlive: this.player.isAlive()
+      });
+    }
+    
+    // Other humans; the bots themselves are added by the controller
+    networkManager.getRemotePlayers().forEach(player => {
+      if (player.isBot) return;
+      targets.push({
+        id: player.id,
+        position: new Vector3(player.position.x, player.position.y, player.position.z),
+        direction: new Vector3(0, 0, -1).applyQuaternion(
+          new Quaternion(player.rotation.x, player.rotation.y, player.rotation.z, player.rotation.w)
+        ),
+        team: player.team,
+        isAlive: player.health > 0 && player.isConnected
+      });
+    });
+    
+    return targets;
+  }
+  
+  private addRemotePlayer(player: NetworkPlayer): void {
+    const remotePlayer = new RemotePlayer(this.scene, player.id);
+    remotePlayer.position.set(player.position.x, player.position.y, player.position.z);
+    remotePlayer.setHealth(player.health);
+    remotePlayer.setReconnecting(!player.isConnected);
+    remotePlayer.setTeam(player.team);
+    this.scene.add(remotePlayer);
+    this.remotePlayers.set(player.id, remotePlayer);
+  }
+  
+  private createSpectatorHud(): void {
+    this.spectatorHud = document.createElement('div');
+    this.spectatorHud.id = 'spectator-hud';
+    this.spectatorHud.style.position = 'absolute';
+    this.spectatorHud.style.bottom = '20px';
+    this.spectatorHud.style.left = '50%';
+    this.spectatorHud.style.transform = 'translateX(-50%)';
+    this.spectatorHud.style.padding = '8px 16px';
+    this.spectatorHud.style.background = 'rgba(0, 0, 0, 0.6)';
+    this.spectatorHud.style.borderRadius = '6px';
+    this.spectatorHud.style.color = '#ffffff';
+    this.spectatorHud.style.fontFamily = 'sans-serif';
+    this.spectatorHud.style.fontSize = '14px';
+    this.spectatorHud.style.textAlign = 'center';
+    this.spectatorHud.style.pointerEvents = 'none';
+    this.container.appendChild(this.spectatorHud);
+    this.updateSpectatorHud();
+  }
+  
+  private updateSpectatorHud(): void {
+    if (!this.spectatorHud || !this.spectatorCamera) return;
+    
+    const target = this.spectatorCamera.getTarget() as RemotePlayer | null;
+    const watching = this.spectatorCamera.getMode() === 'free'
+      ? 'Free camera'
+      : target
+        ? `Following Player ${target.getId().substring(0, 5)} (${Math.round(target.getHealth())} HP)`
+        : 'Waiting for combatants';
+    
+    this.spectatorHud.innerHTML = `
+      <div style="color: #4a9eff; font-weight: bold; letter-spacing: 2px;">SPECTATING</div>
+      <div>${watching}</div>
+      <div style="color: #aaaaaa; font-size: 12px;">Q / E switch combatant · V free camera · WASD fly</div>
+    `;
+  }
+  
   getPlayer(): Player {
     return this.player;
   }
@@ -654,6 +970,7 @@ export class GameScene {
     
     // Create health display container
     const healthContainer = document.createElement('div');
+    healthContainer.id = 'duel-health-container';
     healthContainer.style.position = 'absolute';
     healthContainer.style.top = '20px';
     healthContainer.style.left = '50%';
@@ -669,6 +986,9 @@ export class GameScene {
       <div style="width: 200px; height: 20px; background: #222">
         <div id="player-health-bar" style="width: 100%; height: 100%; background: #3366ff; transition: width 0.3s; border-radius:15px;"></div>
       </div>
+      <div style="width: 200px; height: 6px; margin-top: 4px; background: #222">
+        <div id="player-stamina-bar" style="width: 100%; height: 100%; background: #ffcc00; border-radius:3px;"></div>
+      </div>
     `;
     
     // Enemy health
@@ -679,6 +999,9 @@ export class GameScene {
       <div style="width: 200px; height: 20px; background: #222">
         <div id="enemy-health-bar" style="width: 100%; height: 100%; background: #ff0000; transition: width 0.3s; border-radius:15px;"></div>
       </div>
+      <div style="width: 200px; height: 6px; margin-top: 4px; background: #222">
+        <div id="enemy-stamina-bar" style="width: 100%; height: 100%; background: #ffcc00; border-radius:3px;"></div>
+      </div>
     `;
     
     healthContainer.appendChild(playerHealth);
@@ -687,6 +1010,7 @@ export class GameScene {
     
     // Add lightsaber color picker
     this.createLightsaberColorPicker();
+    this.createTelegraphIndicator();
     
     // Immediately dispatch initial health events to set the bars
     window.dispatchEvent(new CustomEvent('playerHealthChanged', {
@@ -723,6 +1047,57 @@ export class GameScene {
     });
   }
   
+  // Stamina moves every frame, so its bars are refreshed from the loop instead of by events
+  private updateStaminaBars(): void {
+    const playerBar = document.getElementById('player-stamina-bar');
+    if (playerBar && this.player) {
+      playerBar.style.width = `${this.player.getStaminaFraction() * 100}%`;
+    }
+    
+    const enemyBar = document.getElementById('enemy-stamina-bar');
+    if (enemyBar && this.enemies.length > 0) {
+      enemyBar.style.width = `${this.enemies[0].getStaminaFraction() * 100}%`;
+    }
+  }
+  
+  private createTelegraphIndicator(): void {
+    this.telegraphIndicator = document.createElement('div');
+    this.telegraphIndicator.id = 'telegraph-indicator';
+    this.telegraphIndicator.style.position = 'absolute';
+    this.telegraphIndicator.style.top = '50%';
+    this.telegraphIndicator.style.left = '50%';
+    this.telegraphIndicator.style.fontSize = '40px';
+    this.telegraphIndicator.style.fontFamily = 'sans-serif';
+    this.telegraphIndicator.style.pointerEvents = 'none';
+    this.telegraphIndicator.style.display = 'none';
+    this.container.appendChild(this.telegraphIndicator);
+  }
+  
+  // Point at the side the next enemy strike comes from: red until the
+  // player's guard covers it, then green
+  private updateTelegraphIndicator(): void {
+    if (!this.telegraphIndicator) return;
+    
+    const direction = this.enemies
+      .filter(enemy => enemy.isAlive())
+      .map(enemy => enemy.getTelegraphedDirection())
+      .find(telegraphed => telegraphed !== null);
+    if (!direction || !this.player) {
+      this.telegraphIndicator.style.display = 'none';
+      return;
+    }
+    
+    const marker = TELEGRAPH_MARKERS[direction];
+    const covered = this.player.isPlayerBlocking() && this.player.getGuardDirection() === direction;
+    const color = covered ? '#33ff66' : '#ff3333';
+    
+    this.telegraphIndicator.textContent = marker.glyph;
+    this.telegraphIndicator.style.display = 'block';
+    this.telegraphIndicator.style.transform = `translate(calc(-50% + ${marker.x}px), calc(-50% + ${marker.y}px))`;
+    this.telegraphIndicator.style.color = color;
+    this.telegraphIndicator.style.textShadow = `0 0 8px ${color}`;
+  }
+  
   private createLightsaberColorPicker(): void {
     // Create color picker container
     const colorPickerContainer = document.createElement('div');
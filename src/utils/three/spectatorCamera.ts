@@ -0,0 +1,154 @@
+import { Camera, Object3D, Vector3 } from 'three';
+
+export type SpectatorCameraMode = 'follow' | 'free';
+
+/**
+ * Camera rig for spectators. In follow mode it trails one combatant and can
+ * cycle between them; in free mode it flies with WASD (Space/Shift for up
+ * and down) while PointerLockControls handles mouse look.
+ */
+export class SpectatorCamera {
+  private camera: Camera;
+  private mode: SpectatorCameraMode = 'follow';
+  private targets: Object3D[] = [];
+  private targetIndex: number = 0;
+  private pressedKeys: Set<string> = new Set();
+  private followDistance: number = 4;
+  private followHeight: number = 2.5;
+  private flySpeed: number = 6; // m/s
+  private onModeOrTargetChange: (() => void) | null = null;
+
+  // Temporaries so update() doesn't allocate
+  private desiredPosition: Vector3 = new Vector3();
+  private lookTarget: Vector3 = new Vector3();
+  private moveDirection: Vector3 = new Vector3();
+
+  constructor(camera: Camera) {
+    this.camera = camera;
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+    this.handleKeyUp = this.handleKeyUp.bind(this);
+  }
+
+  public enable(): void {
+    document.addEventListener('keydown', this.handleKeyDown);
+    document.addEventListener('keyup', this.handleKeyUp);
+  }
+
+  public disable(): void {
+    document.removeEventListener('keydown', this.handleKeyDown);
+    document.removeEventListener('keyup', this.handleKeyUp);
+    this.pressedKeys.clear();
+  }
+
+  public setTargets(targets: Object3D[]): void {
+    const current = this.getTarget();
+    this.targets = targets;
+    // Keep following the same combatant if they are still around
+    const index = current ? targets.indexOf(current) : -1;
+    this.targetIndex = index >= 0 ? index : 0;
+    this.notifyChange();
+  }
+
+  public nextTarget(): void {
+    if (this.targets.length === 0) return;
+    this.targetIndex = (this.targetIndex + 1) % this.targets.length;
+    this.mode = 'follow';
+    this.notifyChange();
+  }
+
+  public previousTarget(): void {
+    if (this.targets.length === 0) return;
+    this.targetIndex = (this.targetIndex - 1 + this.targets.length) % this.targets.length;
+    this.mode = 'follow';
+    this.notifyChange();
+  }
+
+  public toggleMode(): void {
+    this.mode = this.mode === 'follow' ? 'free' : 'follow';
+    this.notifyChange();
+  }
+
+  public getMode(): SpectatorCameraMode {
+    return this.mode;
+  }
+
+  public getTarget(): Object3D | null {
+    return this.targets[this.targetIndex] ?? null;
+  }
+
+  // Called whenever the followed combatant or the mode changes, for the HUD
+  public onChange(callback: () => void): void {
+    this.onModeOrTargetChange = callback;
+  }
+
+  public update(deltaTime: number): void {
+    if (this.mode === 'follow') {
+      this.updateFollow(deltaTime);
+    } else {
+      this.updateFree(deltaTime);
+    }
+  }
+
+  private updateFollow(deltaTime: number): void {
+    const target = this.getTarget();
+    if (!target) return;
+
+    // Sit behind and above the target, relative to the way they face
+    this.desiredPosition.set(0, 0, this.followDistance).applyQuaternion(target.quaternion);
+    this.desiredPosition.y = this.followHeight;
+    this.desiredPosition.add(target.position);
+
+    // Frame-rate independent smoothing
+    const t = 1 - Math.exp(-5 * deltaTime);
+    this.camera.position.lerp(this.desiredPosition, t);
+
+    this.lookTarget.copy(target.position);
+    this.lookTarget.y += 1.2;
+    this.camera.lookAt(this.lookTarget);
+  }
+
+  private updateFree(deltaTime: number): void {
+    this.moveDirection.set(0, 0, 0);
+
+    const forward = new Vector3();
+    this.camera.getWorldDirection(forward);
+    const right = new Vector3().crossVectors(forward, this.camera.up).normalize();
+
+    if (this.pressedKeys.has('KeyW')) this.moveDirection.add(forward);
+    if (this.pressedKeys.has('KeyS')) this.moveDirection.sub(forward);
+    if (this.pressedKeys.has('KeyD')) this.moveDirection.add(right);
+    if (this.pressedKeys.has('KeyA')) this.moveDirection.sub(right);
+    if (this.pressedKeys.has('Space')) this.moveDirection.y += 1;
+    if (this.pressedKeys.has('ShiftLeft') || this.pressedKeys.has('ShiftRight')) this.moveDirection.y -= 1;
+
+    if (this.moveDirection.lengthSq() > 0) {
+      this.moveDirection.normalize().multiplyScalar(this.flySpeed * deltaTime);
+      this.camera.position.add(this.moveDirection);
+    }
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    this.pressedKeys.add(event.code);
+
+    if (event.repeat) return;
+    switch (event.code) {
+      case 'KeyE':
+        this.nextTarget();
+        break;
+      case 'KeyQ':
+        this.previousTarget();
+        break;
+      case 'KeyV':
+        this.toggleMode();
+        break;
+    }
+  }
+
+  private handleKeyUp(event: KeyboardEvent): void {
+    this.pressedKeys.delete(event.code);
+  }
+
+  private notifyChange(): void {
+    if (this.onModeOrTargetChange) this.onModeOrTargetChange();
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Stamina pays for swings, jumps and hits taken on the guard, and refills
+ * after a short rest. Shared by the Player and the Enemy AI.
+ */
+
+export const STAMINA_COSTS = {
+  lightAttack: 10,
+  heavyAttack: 25,
+  jump: 12,
+  blockedHit: 20
+};
+
+// A guard that can't pay for a blocked hit breaks, leaving its owner reeling
+export const GUARD_BREAK_STAGGER = 2.0; // seconds
+
+export class Stamina {
+  private current: number;
+  private sinceSpent: number = Infinity;
+
+  constructor(
+    private readonly max: number = 100,
+    private readonly regenPerSecond: number = 20,
+    private readonly regenDelay: number = 0.8 // seconds after spending before refilling starts
+  ) {
+    this.current = max;
+  }
+
+  update(deltaTime: number): void {
+    this.sinceSpent += deltaTime;
+    if (this.sinceSpent >= this.regenDelay) {
+      this.current = Math.min(this.max, this.current + this.regenPerSecond * deltaTime);
+    }
+  }
+
+  // Pays `cost` if there is enough; otherwise spends nothing and returns false
+  trySpend(cost: number): boolean {
+    if (this.current < cost) return false;
+    this.current -= cost;
+    this.sinceSpent = 0;
+    return true;
+  }
+
+  // Empties the pool, as when a guard breaks
+  drain(): void {
+    this.current = 0;
+    this.sinceSpent = 0;
+  }
+
+  refill(): void {
+    this.current = this.max;
+    this.sinceSpent = Infinity;
+  }
+
+  getValue(): number {
+    return this.current;
+  }
+
+  getMax(): number {
+    return this.max;
+  }
+
+  getFraction(): number {
+    return this.current / this.max;
+  }
+}